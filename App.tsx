@@ -1,27 +1,50 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import type { Process, AlgorithmResult, GanttEntry } from './types';
-import { PROCESS_COLORS } from './constants';
+import type { Process, AlgorithmResult, GanttEntry, SimulationStep, MlfqConfig, MultilevelQueueConfig, QueueClass, ReadyQueueGroup, AgingConfig, ProportionalShareConfig, CfsConfig, FairShareConfig, RoundRobinConfig, PredictionConfig, RealTimeTask, MachineConfig, Burst, CustomPolicy, AlgorithmSettings, ExperimentConfig, ExperimentReport, QuantumSweepConfig, QuantumSweepReport, TimelineSample } from './types';
+import { PROCESS_COLORS, MIN_NICE, MAX_NICE, MAX_CORES, MAX_EXPERIMENT_TRIALS, MAX_EXPERIMENT_PROCESSES, MAX_SWEEP_POINTS } from './constants';
 import { 
-  runFCFS, runSJF, runSRTF, runRoundRobin, runPriorityNonPreemptive, runPriorityPreemptive,
-  simulateFCFS, simulateSJF, simulateSRTF, simulateRoundRobin, simulatePriorityNonPreemptive, simulatePriorityPreemptive 
+  runAllAlgorithms, runEDF, runRateMonotonic,
+  simulateFCFS, simulateSJF, simulateHRRN, simulateSRTF, simulatePredictedSJF, simulatePredictedSRTF, simulateLJF, simulateLRTF, simulateRoundRobin, simulateMLFQ, simulateMultilevelQueue, simulateLottery, simulateStride, simulateCFS, simulateFairShare, simulateEDF, simulateRateMonotonic, simulatePriorityNonPreemptive, simulatePriorityPreemptive,
+  roundRobinName
 } from './services/schedulingAlgorithms';
+import { roundTime } from './services/schedulingEngine';
+import { expandJobs, hyperperiodOf } from './services/realTime';
+import { loadCustomPolicies, saveCustomPolicies, runCustomPolicy, replayCustomPolicy, customPolicyResult } from './services/customPolicy';
+import { parseBurstSequence, parseBurstHistory, totalCpuTime } from './services/bursts';
+import { runExperiment } from './services/experiment';
+import { runQuantumSweep, sweepQuanta } from './services/quantumSweep';
+import { appendSample, timelineSample } from './services/timeline';
 import InputSection from './components/InputSection';
+import RealTimeSection from './components/RealTimeSection';
+import CustomPolicySection from './components/CustomPolicySection';
+import ExperimentSection from './components/ExperimentSection';
+import ExperimentResults from './components/ExperimentResults';
+import QuantumSweepChart from './components/QuantumSweepChart';
 import OutputSection from './components/OutputSection';
 import LiveSimulationDisplay from './components/LiveSimulationDisplay';
 import PriorityInputModal from './components/PriorityInputModal';
 
-type ViewMode = 'idle' | 'live' | 'comparison';
+type ViewMode = 'idle' | 'live' | 'comparison' | 'experiment' | 'sweep';
 type Theme = 'light' | 'dark';
 
 export interface LiveSimulationState {
   algorithmName: string;
   time: number;
   runningProcessName: string | null;
+  // Multiprocessor runs only: the process on each core, by core index.
+  cores?: (string | null)[];
+  // Whether each core is switching to its process rather than running it.
+  switching?: boolean[];
   readyQueue: Process[];
+  readyQueues?: ReadyQueueGroup[];
+  ioQueue?: Process[];
   ganttChart: GanttEntry[];
   processes: Process[]; // Now tracks the state of ALL processes
   eventLog: string[];
+  // One sample per step so far, for the timeline charts.
+  timeline: TimelineSample[];
+  // The batch result, once the run has finished. A stopped run has none.
+  result?: AlgorithmResult;
 }
 
 interface PriorityRequest {
@@ -32,8 +55,36 @@ interface PriorityRequest {
 
 const App: React.FC = () => {
   const [processes, setProcesses] = useState<Process[]>([]);
-  const [timeQuantum, setTimeQuantum] = useState<number>(3);
+  const [rrConfig, setRrConfig] = useState<RoundRobinConfig>({ timeQuantum: 3, queueOrder: 'preempted-first', quantumMode: 'fixed', priorityQuanta: [8, 4, 2] });
+  const [mlfqConfig, setMlfqConfig] = useState<MlfqConfig>({ quanta: [2, 4, 8], boostInterval: 20 });
+  const [shareConfig, setShareConfig] = useState<ProportionalShareConfig>({ seed: 42, quantum: 2 });
+  const [cfsConfig, setCfsConfig] = useState<CfsConfig>({ targetLatency: 12, minGranularity: 2 });
+  const [predictionConfig, setPredictionConfig] = useState<PredictionConfig>({ alpha: 0.5, initialTau: 10 });
+  const [fairShareConfig, setFairShareConfig] = useState<FairShareConfig>({ quantum: 2, groupWeights: {} });
+  const [machineConfig, setMachineConfig] = useState<MachineConfig>({ cores: 1, topology: 'global', balanceInterval: 4, contextSwitchCost: 0, tieBreak: 'arrival' });
+  const [agingConfig, setAgingConfig] = useState<AgingConfig>({ enabled: false, interval: 5, step: 1 });
+  const [mlqConfig, setMlqConfig] = useState<MultilevelQueueConfig>({
+    arbitration: 'fixed-priority',
+    queues: {
+      system: { algorithm: 'FCFS', timeQuantum: 2, timeSlice: 5 },
+      interactive: { algorithm: 'RR', timeQuantum: 2, timeSlice: 3 },
+      batch: { algorithm: 'SJF', timeQuantum: 4, timeSlice: 2 },
+    },
+  });
+  const [realTimeTasks, setRealTimeTasks] = useState<RealTimeTask[]>([]);
+  const [horizon, setHorizon] = useState<number>(0);
+  const [customPolicies, setCustomPolicies] = useState<CustomPolicy[]>(loadCustomPolicies);
   const [comparisonResults, setComparisonResults] = useState<AlgorithmResult[] | null>(null);
+  const [experimentConfig, setExperimentConfig] = useState<ExperimentConfig>({
+    trials: 100, seed: 1, minProcesses: 3, maxProcesses: 8, maxArrivalTime: 20, minBurst: 1, maxBurst: 10, metric: 'avgWaitingTime',
+  });
+  const [experimentReport, setExperimentReport] = useState<ExperimentReport | null>(null);
+  const [experimentProgress, setExperimentProgress] = useState<number>(0);
+  const [sweepConfig, setSweepConfig] = useState<QuantumSweepConfig>({ from: 1, to: 10, step: 1 });
+  const [sweepReport, setSweepReport] = useState<QuantumSweepReport | null>(null);
+  const algorithmSettings = useMemo<AlgorithmSettings>(() => ({
+    rrConfig, mlfqConfig, mlqConfig, agingConfig, shareConfig, cfsConfig, predictionConfig, fairShareConfig, machineConfig,
+  }), [rrConfig, mlfqConfig, mlqConfig, agingConfig, shareConfig, cfsConfig, predictionConfig, fairShareConfig, machineConfig]);
   const [isSimulating, setIsSimulating] = useState<boolean>(false);
   const [isPaused, setIsPaused] = useState<boolean>(false);
   const [error, setError] = useState<string>('');
@@ -53,7 +104,7 @@ const App: React.FC = () => {
   });
 
   const simulationTimerRef = useRef<number | null>(null);
-  const simulationGeneratorRef = useRef<Generator | null>(null);
+  const simulationGeneratorRef = useRef<Generator<SimulationStep, AlgorithmResult> | null>(null);
   const simulationStepRef = useRef<(() => void) | null>(null);
   
   useEffect(() => {
@@ -66,6 +117,10 @@ const App: React.FC = () => {
     localStorage.setItem('theme', theme);
   }, [theme]);
 
+  useEffect(() => {
+    saveCustomPolicies(customPolicies);
+  }, [customPolicies]);
+
 
   const cleanupSimulation = () => {
     if (simulationTimerRef.current) {
@@ -78,21 +133,39 @@ const App: React.FC = () => {
     setIsPaused(false);
   };
   
-  const handleAddProcess = useCallback((arrivalTime: number, burstTime: number, priority: number | null) => {
+  const handleAddProcess = useCallback((arrivalTime: number, burstTime: number, priority: number | null, queueClass: QueueClass, group: string, tickets: number, nice: number, affinity: number | null, burstSequence: string, burstHistoryText: string) => {
     setError('');
 
+    // A burst sequence, when given, replaces the single Burst Time.
+    let bursts: Burst[] | undefined;
+    if (burstSequence.trim() !== '') {
+      const parsed = parseBurstSequence(burstSequence);
+      if (typeof parsed === 'string') {
+        setError(parsed);
+        return false;
+      }
+      bursts = parsed.length > 1 ? parsed : undefined;
+      burstTime = roundTime(totalCpuTime(parsed));
+    }
+
+    const burstHistory = parseBurstHistory(burstHistoryText);
+    if (typeof burstHistory === 'string') {
+      setError(burstHistory);
+      return false;
+    }
+
     if (isNaN(arrivalTime) || isNaN(burstTime)) {
-      setError("Arrival and Burst Time must be valid integers.");
+      setError("Arrival and Burst Time must be valid numbers.");
       return false;
     }
     
-    if (arrivalTime < 0 || !Number.isInteger(arrivalTime)) {
-      setError("Arrival Time must be a non-negative integer.");
+    if (arrivalTime < 0 || !Number.isFinite(arrivalTime)) {
+      setError("Arrival Time must be a non-negative number.");
       return false;
     }
 
-    if (burstTime <= 0 || !Number.isInteger(burstTime)) {
-      setError("Burst Time must be a positive integer.");
+    if (burstTime <= 0 || !Number.isFinite(burstTime)) {
+      setError("Burst Time must be a positive number.");
       return false;
     }
     
@@ -101,6 +174,21 @@ const App: React.FC = () => {
       return false;
     }
 
+    if (isNaN(tickets) || tickets <= 0 || !Number.isInteger(tickets)) {
+      setError("Tickets must be a positive integer.");
+      return false;
+    }
+
+    if (isNaN(nice) || !Number.isInteger(nice) || nice < MIN_NICE || nice > MAX_NICE) {
+      setError(`Nice must be an integer from ${MIN_NICE} to ${MAX_NICE}.`);
+      return false;
+    }
+
+    if (affinity !== null && (isNaN(affinity) || !Number.isInteger(affinity) || affinity < 0 || affinity >= MAX_CORES)) {
+      setError(`Pinned CPU must be an integer from 1 to ${MAX_CORES}.`);
+      return false;
+    }
+
     setProcesses(prev => {
       const newId = prev.length > 0 ? Math.max(...prev.map(p => p.id)) + 1 : 1;
       const newProcess: Process = {
@@ -108,7 +196,14 @@ const App: React.FC = () => {
         name: `P${newId}`,
         arrivalTime,
         burstTime,
+        ...(bursts && { bursts }),
+        ...(burstHistory.length > 0 && { burstHistory }),
         priority,
+        tickets,
+        nice,
+        queueClass,
+        group,
+        ...(affinity !== null && { affinity }),
         remainingTime: burstTime,
         color: PROCESS_COLORS[(newId - 1) % PROCESS_COLORS.length],
         completionTime: 0,
@@ -129,10 +224,59 @@ const App: React.FC = () => {
     setProcesses(reorderedProcesses);
   }, []);
 
+  const handleAddRealTimeTask = useCallback((period: number, executionTime: number, deadline: number | null) => {
+    setError('');
+
+    if (isNaN(period) || period <= 0 || !Number.isInteger(period)) {
+      setError("Period must be a positive integer.");
+      return false;
+    }
+
+    if (isNaN(executionTime) || executionTime <= 0 || !Number.isInteger(executionTime)) {
+      setError("Execution Time must be a positive integer.");
+      return false;
+    }
+
+    if (deadline !== null && (isNaN(deadline) || deadline < executionTime || !Number.isInteger(deadline))) {
+      setError("Deadline must be an integer no smaller than the Execution Time.");
+      return false;
+    }
+
+    setRealTimeTasks(prev => {
+      const newId = prev.length > 0 ? Math.max(...prev.map(t => t.id)) + 1 : 1;
+      return [...prev, {
+        id: newId,
+        name: `T${newId}`,
+        period,
+        executionTime,
+        deadline: deadline ?? period,
+        color: PROCESS_COLORS[(newId - 1) % PROCESS_COLORS.length],
+      }];
+    });
+    return true;
+  }, []);
+
+  const handleRemoveRealTimeTask = useCallback((idToRemove: number) => {
+    setRealTimeTasks(prev => prev.filter(t => t.id !== idToRemove));
+  }, []);
+
+  const handleSaveCustomPolicy = useCallback((policy: CustomPolicy) => {
+    setCustomPolicies(prev => prev.some(p => p.id === policy.id)
+      ? prev.map(p => p.id === policy.id ? policy : p)
+      : [...prev, policy]);
+  }, []);
+
+  const handleDeleteCustomPolicy = useCallback((idToRemove: number) => {
+    setCustomPolicies(prev => prev.filter(p => p.id !== idToRemove));
+  }, []);
+
   const handleReset = useCallback(() => {
     cleanupSimulation();
     setProcesses([]);
+    setRealTimeTasks([]);
     setComparisonResults(null);
+    setExperimentReport(null);
+    setSweepReport(null);
     setError('');
     setViewMode('idle');
     setSimulationState(null);
@@ -194,35 +338,110 @@ const App: React.FC = () => {
       setIsPresentationMode(true);
       
       setTimeout(() => {
-        const fcfsResult = runFCFS(procsWithPriorities);
-        const sjfResult = runSJF(procsWithPriorities);
-        const srtfResult = runSRTF(procsWithPriorities);
-        const priorityNPResult = runPriorityNonPreemptive(procsWithPriorities);
-        const priorityPResult = runPriorityPreemptive(procsWithPriorities);
-        const rrResult = runRoundRobin(procsWithPriorities, timeQuantum);
-        
-        setComparisonResults([fcfsResult, sjfResult, srtfResult, priorityNPResult, priorityPResult, rrResult]);
-        setIsSimulating(false);
+        // Starting from a resolved promise turns a throw from the built-in runs into a rejection,
+        // so a failed comparison is reported and never leaves the simulation flag set.
+        Promise.resolve()
+          .then(() => {
+            const builtInResults = runAllAlgorithms(procsWithPriorities, algorithmSettings);
+            // Custom policies run in their own workers, so their results arrive asynchronously.
+            return Promise.all(customPolicies.map(policy =>
+              runCustomPolicy(policy, procsWithPriorities, machineConfig).then(run => customPolicyResult(run, policy.name))
+            )).then(customResults => setComparisonResults([...builtInResults, ...customResults]));
+          })
+          .catch((reason: Error) => {
+            setError(reason.message);
+            setViewMode('idle');
+            setIsPresentationMode(false);
+          })
+          .finally(() => setIsSimulating(false));
       }, 500);
     });
 
-  }, [processes, timeQuantum, checkPrioritiesAndRun]);
+  }, [processes, algorithmSettings, machineConfig, customPolicies, checkPrioritiesAndRun]);
+
+  const handleRunSweep = useCallback(() => {
+    if (processes.length === 0) {
+      setError("Please add at least one process.");
+      return;
+    }
+    const { from, to, step } = sweepConfig;
+    if (!(from > 0) || !(step > 0) || to < from) {
+      setError("The sweep needs a positive starting quantum and step, and an end no smaller than the start.");
+      return;
+    }
+    if (sweepQuanta(sweepConfig).length > MAX_SWEEP_POINTS) {
+      setError(`A sweep may try at most ${MAX_SWEEP_POINTS} quanta; use a larger step.`);
+      return;
+    }
+
+    cleanupSimulation();
+    setError('');
+    setIsSimulating(true);
+    setViewMode('sweep');
+    setSimulationState(null);
+    setSweepReport(null);
+    setIsPresentationMode(true);
+
+    setTimeout(() => {
+      try {
+        setSweepReport(runQuantumSweep(processes, sweepConfig, rrConfig, machineConfig));
+      } catch (reason) {
+        setError((reason as Error).message);
+        setViewMode('idle');
+        setIsPresentationMode(false);
+      } finally {
+        setIsSimulating(false);
+      }
+    }, 500);
+  }, [processes, sweepConfig, rrConfig, machineConfig]);
+
+  const handleRunExperiment = useCallback(() => {
+    const { trials, minProcesses, maxProcesses, maxArrivalTime, minBurst, maxBurst } = experimentConfig;
+    if (!Number.isInteger(trials) || trials < 1 || trials > MAX_EXPERIMENT_TRIALS) {
+      setError(`Trials must be an integer from 1 to ${MAX_EXPERIMENT_TRIALS}.`);
+      return;
+    }
+    if (!Number.isInteger(minProcesses) || minProcesses < 1 || maxProcesses < minProcesses || maxProcesses > MAX_EXPERIMENT_PROCESSES) {
+      setError(`Processes per workload must be a range from 1 to ${MAX_EXPERIMENT_PROCESSES}.`);
+      return;
+    }
+    if (!(maxArrivalTime >= 0) || !(minBurst >= 1) || maxBurst < minBurst) {
+      setError("Arrival times must be non-negative and bursts a range of at least 1.");
+      return;
+    }
+
+    cleanupSimulation();
+    setError('');
+    setIsSimulating(true);
+    setViewMode('experiment');
+    setSimulationState(null);
+    setComparisonResults(null);
+    setExperimentReport(null);
+    setExperimentProgress(0);
+    setIsPresentationMode(true);
+
+    runExperiment(experimentConfig, algorithmSettings, setExperimentProgress)
+      .then(setExperimentReport)
+      .catch((reason: Error) => {
+        setError(reason.message);
+        setViewMode('idle');
+        setIsPresentationMode(false);
+      })
+      .finally(() => setIsSimulating(false));
+  }, [experimentConfig, algorithmSettings]);
 
   const runLiveSimulation = useCallback((
-    algorithmGeneratorFactory: (procs: Process[], ...args: any[]) => Generator | undefined, 
-    algorithmName: string
+    algorithmGeneratorFactory: (procs: Process[]) => Generator<SimulationStep, AlgorithmResult>, 
+    algorithmName: string,
+    sourceProcesses: Process[] = processes
   ) => {
-      if (processes.length === 0) {
+      if (sourceProcesses.length === 0) {
         setError("Please add at least one process.");
         return;
       }
       
       const run = (procs: Process[]) => {
-          const generator = algorithmName.includes("Robin")
-            ? (algorithmGeneratorFactory as (p: Process[], tq: number) => Generator)(procs, timeQuantum)
-            : algorithmGeneratorFactory(procs);
-
-          if (!generator) return;
+          const generator = algorithmGeneratorFactory(procs);
 
           cleanupSimulation();
           setError('');
@@ -242,6 +461,7 @@ const App: React.FC = () => {
             ganttChart: [],
             processes: JSON.parse(JSON.stringify(procs)).map((p: Process) => ({...p, state: 'not arrived'})),
             eventLog: [],
+            timeline: [],
           };
 
           setSimulationState(initialSimState);
@@ -251,40 +471,62 @@ const App: React.FC = () => {
             const { value, done } = simulationGeneratorRef.current.next();
             
             if (done) {
+              setSimulationState(prevState => prevState && { ...prevState, result: value });
               cleanupSimulation();
               return;
             }
             
-            const { time, runningProcess, processes: updatedProcesses, readyQueue, eventMessage } = value;
+            const { time, duration, runningProcess, cores, switching, processes: updatedProcesses, readyQueue, readyQueues, ioQueue, eventMessage } = value;
 
             setSimulationState(prevState => {
               if (!prevState) return null;
 
               const newGanttChart = [...prevState.ganttChart];
 
-              if (runningProcess) {
-                const lastEntry = newGanttChart[newGanttChart.length - 1];
-                if (lastEntry && lastEntry.processName === runningProcess.name && lastEntry.end === time) {
-                  lastEntry.end = time + 1;
+              const end = roundTime(time + duration);
+
+              // Single-CPU runs keep one untagged track; multiprocessor runs keep one per core.
+              const extendTrack = (process: Process | null, core?: number) => {
+                if (!process) return;
+                const kind = switching?.[core ?? 0] ? 'switch' as const : undefined;
+                const lastEntry = newGanttChart.filter(entry => entry.core === core).pop();
+                if (lastEntry && lastEntry.processName === process.name && lastEntry.kind === kind && lastEntry.end === time) {
+                  lastEntry.end = end;
                 } else {
                   newGanttChart.push({
-                    processName: runningProcess.name,
-                    color: runningProcess.color,
+                    processName: process.name,
+                    color: process.color,
                     start: time,
-                    end: time + 1,
+                    end,
+                    core,
+                    kind,
                   });
                 }
+              };
+
+              if (cores) {
+                cores.forEach((process, core) => extendTrack(process, core));
+              } else {
+                extendTrack(runningProcess);
               }
               
+              const newTimeline = [...prevState.timeline];
+              appendSample(newTimeline, timelineSample(value));
+
               const newLog = eventMessage ? [...prevState.eventLog, `[Time ${time}]: ${eventMessage}`] : prevState.eventLog;
 
               return {
                 ...prevState,
-                time: time + 1,
+                time: end,
                 runningProcessName: runningProcess?.name ?? null,
+                cores: cores?.map(process => process?.name ?? null),
+                switching,
                 readyQueue,
+                readyQueues,
+                ioQueue,
                 ganttChart: newGanttChart,
                 processes: updatedProcesses,
+                timeline: newTimeline,
                 eventLog: newLog,
               };
             });
@@ -299,9 +541,60 @@ const App: React.FC = () => {
       if (algorithmName.includes("Priority")) {
           checkPrioritiesAndRun(run);
       } else {
-          run(processes);
+          run(sourceProcesses);
       }
-  }, [timeQuantum, processes, checkPrioritiesAndRun]);
+  }, [processes, checkPrioritiesAndRun]);
+
+  const handleSimulateCustomPolicy = useCallback((policy: CustomPolicy) => {
+    if (processes.length === 0) {
+      setError("Please add at least one process.");
+      return;
+    }
+
+    setError('');
+    setIsSimulating(true);
+    // Once the replay starts the live simulation owns the flag, so it is only cleared on failure.
+    runCustomPolicy(policy, processes, machineConfig)
+      .then(run => {
+        runLiveSimulation(procs => replayCustomPolicy(run, policy.name, procs), policy.name);
+      })
+      .catch((reason: Error) => {
+        setError(reason.message);
+        setIsSimulating(false);
+      });
+  }, [processes, machineConfig, runLiveSimulation]);
+
+  const realTimeHorizon = horizon || hyperperiodOf(realTimeTasks);
+
+  const runRealTimeSimulation = useCallback((simulate: typeof simulateEDF, algorithmName: string) => {
+    runLiveSimulation(() => simulate(realTimeTasks, realTimeHorizon, machineConfig), algorithmName, expandJobs(realTimeTasks, realTimeHorizon));
+  }, [realTimeTasks, realTimeHorizon, machineConfig, runLiveSimulation]);
+
+  const handleCompareRealTime = useCallback(() => {
+    if (realTimeTasks.length === 0) {
+      setError("Please add at least one real-time task.");
+      return;
+    }
+
+    cleanupSimulation();
+    setError('');
+    setIsSimulating(true);
+    setViewMode('comparison');
+    setSimulationState(null);
+    setIsPresentationMode(true);
+
+    setTimeout(() => {
+      try {
+        setComparisonResults([runEDF(realTimeTasks, realTimeHorizon, machineConfig), runRateMonotonic(realTimeTasks, realTimeHorizon, machineConfig)]);
+      } catch (reason) {
+        setError((reason as Error).message);
+        setViewMode('idle');
+        setIsPresentationMode(false);
+      } finally {
+        setIsSimulating(false);
+      }
+    }, 500);
+  }, [realTimeTasks, realTimeHorizon, machineConfig]);
 
   const handlePauseLiveSimulation = useCallback(() => {
     if (simulationTimerRef.current) {
@@ -347,7 +640,7 @@ const App: React.FC = () => {
               CPU Scheduling Visualizer
             </h1>
             <p className="text-slate-500 dark:text-slate-400 mt-2 max-w-2xl mx-auto">
-              Simulate or compare FCFS, SJF, SRTF, Priority, and Round Robin algorithms.
+              Simulate or compare FCFS, SJF, HRRN, SRTF, predicted SJF and SRTF, LJF, LRTF, Priority, Round Robin, MLFQ, Multilevel Queue, Lottery, Stride, CFS, and Fair-Share algorithms, plus EDF and Rate Monotonic for periodic real-time tasks.
             </p>
           </motion.header>
         )}
@@ -361,17 +654,71 @@ const App: React.FC = () => {
               onReorderProcesses={handleReorderProcesses}
               onReset={handleReset}
               onCompareAll={handleCompareAll}
-              onSimulateFCFS={() => runLiveSimulation(simulateFCFS, "First-Come, First-Served")}
-              onSimulateSJF={() => runLiveSimulation(simulateSJF, "Non-Preemptive SJF")}
-              onSimulateSRTF={() => runLiveSimulation(simulateSRTF, "Preemptive SJF (SRTF)")}
-              onSimulatePriorityNP={() => runLiveSimulation(simulatePriorityNonPreemptive, "Non-Preemptive Priority")}
-              onSimulatePriorityP={() => runLiveSimulation(simulatePriorityPreemptive, "Preemptive Priority")}
-              onSimulateRR={() => runLiveSimulation(simulateRoundRobin, "Round Robin")}
-              timeQuantum={timeQuantum}
-              onTimeQuantumChange={setTimeQuantum}
+              onRunSweep={handleRunSweep}
+              onSimulateFCFS={() => runLiveSimulation(procs => simulateFCFS(procs, machineConfig), "First-Come, First-Served")}
+              onSimulateSJF={() => runLiveSimulation(procs => simulateSJF(procs, machineConfig), "Non-Preemptive SJF")}
+              onSimulateHRRN={() => runLiveSimulation(procs => simulateHRRN(procs, machineConfig), "Highest Response Ratio Next")}
+              onSimulateSRTF={() => runLiveSimulation(procs => simulateSRTF(procs, machineConfig), "Preemptive SJF (SRTF)")}
+              onSimulatePredictedSJF={() => runLiveSimulation(procs => simulatePredictedSJF(procs, predictionConfig, machineConfig), "Predicted SJF")}
+              onSimulatePredictedSRTF={() => runLiveSimulation(procs => simulatePredictedSRTF(procs, predictionConfig, machineConfig), "Predicted SRTF")}
+              onSimulateLJF={() => runLiveSimulation(procs => simulateLJF(procs, machineConfig), "Non-Preemptive LJF")}
+              onSimulateLRTF={() => runLiveSimulation(procs => simulateLRTF(procs, machineConfig), "Preemptive LJF (LRTF)")}
+              onSimulatePriorityNP={() => runLiveSimulation(procs => simulatePriorityNonPreemptive(procs, agingConfig, machineConfig), "Non-Preemptive Priority")}
+              onSimulatePriorityP={() => runLiveSimulation(procs => simulatePriorityPreemptive(procs, agingConfig, machineConfig), "Preemptive Priority")}
+              onSimulateRR={() => runLiveSimulation(procs => simulateRoundRobin(procs, rrConfig, machineConfig), roundRobinName(rrConfig))}
+              onSimulateMLFQ={() => runLiveSimulation(procs => simulateMLFQ(procs, mlfqConfig, machineConfig), "Multilevel Feedback Queue")}
+              onSimulateMLQ={() => runLiveSimulation(procs => simulateMultilevelQueue(procs, mlqConfig, machineConfig), "Multilevel Queue")}
+              onSimulateLottery={() => runLiveSimulation(procs => simulateLottery(procs, shareConfig, machineConfig), "Lottery Scheduling")}
+              onSimulateStride={() => runLiveSimulation(procs => simulateStride(procs, shareConfig, machineConfig), "Stride Scheduling")}
+              onSimulateCFS={() => runLiveSimulation(procs => simulateCFS(procs, cfsConfig, machineConfig), "Completely Fair Scheduler")}
+              onSimulateFairShare={() => runLiveSimulation(procs => simulateFairShare(procs, fairShareConfig, machineConfig), "Fair-Share Scheduling")}
+              rrConfig={rrConfig}
+              onRrConfigChange={setRrConfig}
+              sweepConfig={sweepConfig}
+              onSweepConfigChange={setSweepConfig}
+              mlfqConfig={mlfqConfig}
+              onMlfqConfigChange={setMlfqConfig}
+              mlqConfig={mlqConfig}
+              onMlqConfigChange={setMlqConfig}
+              agingConfig={agingConfig}
+              onAgingConfigChange={setAgingConfig}
+              shareConfig={shareConfig}
+              onShareConfigChange={setShareConfig}
+              cfsConfig={cfsConfig}
+              onCfsConfigChange={setCfsConfig}
+              predictionConfig={predictionConfig}
+              onPredictionConfigChange={setPredictionConfig}
+              fairShareConfig={fairShareConfig}
+              onFairShareConfigChange={setFairShareConfig}
+              machineConfig={machineConfig}
+              onMachineConfigChange={setMachineConfig}
               processes={processes}
               isSimulating={isSimulating}
             />
+            <RealTimeSection
+              tasks={realTimeTasks}
+              onAddTask={handleAddRealTimeTask}
+              onRemoveTask={handleRemoveRealTimeTask}
+              horizon={horizon}
+              onHorizonChange={setHorizon}
+              onSimulateEDF={() => runRealTimeSimulation(simulateEDF, "Earliest Deadline First")}
+              onSimulateRM={() => runRealTimeSimulation(simulateRateMonotonic, "Rate Monotonic")}
+              onCompare={handleCompareRealTime}
+              isSimulating={isSimulating}
+            />
+            <CustomPolicySection
+              policies={customPolicies}
+              onSavePolicy={handleSaveCustomPolicy}
+              onDeletePolicy={handleDeleteCustomPolicy}
+              onSimulatePolicy={handleSimulateCustomPolicy}
+              isSimulating={isSimulating}
+            />
+            <ExperimentSection
+              config={experimentConfig}
+              onConfigChange={setExperimentConfig}
+              onRun={handleRunExperiment}
+              isSimulating={isSimulating}
+            />
             {error && <p className="text-center text-red-500 mt-4 font-semibold">{error}</p>}
         </motion.div>
 
@@ -424,6 +771,26 @@ const App: React.FC = () => {
                   <OutputSection results={comparisonResults} />
                 </motion.div>
               )}
+              {viewMode === 'experiment' && (
+                 <motion.div
+                  key="experiment"
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                >
+                  <ExperimentResults report={experimentReport} progress={experimentProgress} trials={experimentConfig.trials} />
+                </motion.div>
+              )}
+              {viewMode === 'sweep' && sweepReport && (
+                 <motion.div
+                  key="sweep"
+                  initial={{ opacity: 0, scale: 0.95 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  exit={{ opacity: 0, scale: 0.95 }}
+                >
+                  <QuantumSweepChart report={sweepReport} />
+                </motion.div>
+              )}
             </AnimatePresence>
         </div>
       </main>
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import type { AlgorithmResult, GanttEntry } from '../types';
+import { GanttLane, combineGanttSegments, filterTimestamps } from './GanttChart';
+import { diffSchedules, differenceTime, entriesAt } from '../services/ganttDiff';
+import { roundTime } from '../services/schedulingEngine';
+
+interface AlignedGanttViewProps {
+  results: AlgorithmResult[];
+}
+
+const selectClassName = "bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none";
+
+const coresOf = (result: AlgorithmResult) => result.coreUtilization?.length ?? 1;
+
+const describeEntry = (entry: GanttEntry | null): string =>
+  entry === null ? 'idle' : entry.kind === 'switch' ? `switching to ${entry.processName}` : entry.processName;
+
+// Every algorithm's Gantt chart on one time axis, with a cursor that follows the mouse and an
+// optional diff of two algorithms that highlights where they ran different processes.
+const AlignedGanttView: React.FC<AlignedGanttViewProps> = ({ results }) => {
+  const [cursor, setCursor] = useState<number | null>(null);
+  // The two algorithms to diff, as indexes into `shown` ('' for none); names are not unique.
+  const [diffPicks, setDiffPicks] = useState<[string, string]>(['', '']);
+  const shown = results.filter(result => !result.error);
+  if (shown.length < 2) return null;
+
+  const displayTime = Math.max(1, ...shown.map(result => result.totalTime));
+  const timestamps = filterTimestamps([0, ...shown.flatMap(result => result.ganttChart.map(entry => entry.end))], displayTime);
+  const percent = (time: number) => `${(time / displayTime) * 100}%`;
+  // The cursor snaps to a power of ten that leaves a few hundred positions across the chart, fine
+  // enough for short schedules with decimal times and still readable on long ones.
+  const cursorStep = 10 ** Math.floor(Math.log10(displayTime / 500));
+
+  const [pickA, pickB] = diffPicks;
+  const diffA = pickA === '' ? undefined : shown[Number(pickA)];
+  const diffB = pickB === '' ? undefined : shown[Number(pickB)];
+  const differences = diffA && diffB && diffA !== diffB ? diffSchedules(diffA.ganttChart, diffB.ganttChart) : null;
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    setCursor(roundTime(Math.round(fraction * displayTime / cursorStep) * cursorStep));
+  };
+
+  return (
+    <div className="mt-6">
+      <h4 className="text-lg font-semibold text-slate-700 dark:text-slate-300">Aligned Gantt Charts</h4>
+      <div className="flex flex-wrap items-center gap-2 mt-2 mb-4 text-sm text-slate-600 dark:text-slate-300">
+        <span className="font-medium">Diff</span>
+        {[0, 1].map(side => (
+          <select
+            key={side}
+            value={diffPicks[side]}
+            onChange={e => setDiffPicks(side === 0 ? [e.target.value, pickB] : [pickA, e.target.value])}
+            aria-label={side === 0 ? 'First algorithm to diff' : 'Second algorithm to diff'}
+            className={selectClassName}
+          >
+            <option value="">None</option>
+            {shown.map((result, i) => <option key={i} value={String(i)}>{result.name}</option>)}
+          </select>
+        ))}
+        {differences && (
+          <span className="text-xs">
+            {differences.length === 0
+              ? 'Identical schedules.'
+              : `${differences.length} interval${differences.length === 1 ? '' : 's'} differ, ${differenceTime(differences)} of ${displayTime} time units.`}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {shown.map((result, i) => {
+          const cores = coresOf(result);
+          const lanes = cores > 1
+            ? Array.from({ length: cores }, (_, core) => combineGanttSegments(result.ganttChart.filter(entry => entry.core === core)))
+            : [combineGanttSegments(result.ganttChart)];
+          const highlighted = differences && (result === diffA || result === diffB);
+          return (
+            <div key={i} className="flex items-center gap-3">
+              <p className="w-32 shrink-0 text-sm font-semibold text-slate-700 dark:text-slate-300 truncate" title={result.name}>{result.name}</p>
+              <div className="relative flex-grow space-y-1" onMouseMove={handleMouseMove} onMouseLeave={() => setCursor(null)}>
+                {lanes.map((segments, core) => (
+                  <GanttLane key={core} segments={segments} misses={[]} displayTime={displayTime} />
+                ))}
+                {highlighted && differences.map(d => (
+                  <div
+                    key={d.start}
+                    className="absolute top-0 h-full bg-amber-300/40 border-x-2 border-amber-500 pointer-events-none z-20"
+                    style={{ left: percent(d.start), width: percent(d.end - d.start) }}
+                    title={`Differs from ${d.start} to ${d.end}`}
+                  />
+                ))}
+                {cursor !== null && (
+                  <div className="absolute top-0 h-full w-0.5 -translate-x-1/2 bg-slate-900 dark:bg-white pointer-events-none z-30" style={{ left: percent(cursor) }} />
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <div className="flex gap-3">
+          <div className="w-32 shrink-0" />
+          <div className="relative flex-grow h-4 text-xs text-slate-500 dark:text-slate-400">
+            {timestamps.map(t => (
+              <span key={t} className="absolute -translate-x-1/2" style={{ left: percent(t) }}>{t}</span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="mt-3 text-sm text-slate-600 dark:text-slate-300">
+        {cursor === null ? (
+          <p className="text-xs text-slate-500 dark:text-slate-400">Hover over the charts to see what each algorithm runs at that time.</p>
+        ) : (
+          <div className="inline-grid grid-cols-[auto_auto] gap-x-4 gap-y-0.5">
+            <span className="font-semibold text-right">t =</span>
+            <span>{cursor}</span>
+            {shown.map((result, i) => (
+              <React.Fragment key={i}>
+                <span className="font-semibold text-right">{result.name}:</span>
+                <span>
+                  {cursor >= result.totalTime
+                    ? 'finished'
+                    : entriesAt(result.ganttChart, cursor, coresOf(result)).map((entry, core, all) => all.length > 1 ? `CPU ${core + 1}: ${describeEntry(entry)}` : describeEntry(entry)).join(', ')}
+                </span>
+              </React.Fragment>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlignedGanttView;
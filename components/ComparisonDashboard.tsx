@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import type { AlgorithmResult, MetricWeights, RankedResult, ResultMetric } from '../types';
+import { DEFAULT_METRIC_WEIGHTS, RESULT_METRICS, SERIES_COLORS } from '../constants';
+import { rankResults } from '../services/ranking';
+
+interface ComparisonDashboardProps {
+  results: AlgorithmResult[];
+}
+
+const METRICS = Object.keys(RESULT_METRICS) as ResultMetric[];
+
+type ColorOf = (result: AlgorithmResult) => string;
+
+const MetricBars: React.FC<{ metric: ResultMetric, results: AlgorithmResult[], colorOf: ColorOf }> = ({ metric, results, colorOf }) => {
+  const width = 300;
+  const height = 140;
+  const plotTop = 10;
+  const plotBottom = 130;
+  const max = Math.max(...results.map(result => result[metric])) || 1;
+  const slot = width / results.length;
+  return (
+    <div>
+      <h5 className="text-sm font-semibold text-center text-slate-700 dark:text-slate-300">
+        {RESULT_METRICS[metric].label} <span className="font-normal text-slate-500 dark:text-slate-400">({RESULT_METRICS[metric].higherIsBetter ? 'higher' : 'lower'} is better)</span>
+      </h5>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full text-slate-400 dark:text-slate-500">
+        <line x1={0} y1={plotBottom} x2={width} y2={plotBottom} stroke="currentColor" />
+        {results.map((result, i) => {
+          const barHeight = (result[metric] / max) * (plotBottom - plotTop);
+          return (
+            <rect key={i} x={i * slot + slot * 0.15} y={plotBottom - barHeight} width={slot * 0.7} height={barHeight} fill={colorOf(result)}>
+              <title>{result.name}: {RESULT_METRICS[metric].format(result[metric])}</title>
+            </rect>
+          );
+        })}
+        <text x={2} y={plotTop} fontSize="9" fill="currentColor">{RESULT_METRICS[metric].format(max)}</text>
+      </svg>
+    </div>
+  );
+};
+
+// Normalized scores on one axis per metric: the outer ring is the best of the compared results.
+const RadarChart: React.FC<{ ranked: RankedResult[], visible: AlgorithmResult[], colorOf: ColorOf }> = ({ ranked, visible, colorOf }) => {
+  // Wider than tall, so the axis labels on the sides fit.
+  const width = 440;
+  const height = 340;
+  const radius = 120;
+  const point = (axis: number, value: number): [number, number] => {
+    const angle = (2 * Math.PI * axis) / METRICS.length - Math.PI / 2;
+    return [width / 2 + Math.cos(angle) * radius * value, height / 2 + Math.sin(angle) * radius * value];
+  };
+  const polygon = (values: number[]) => values.map((value, axis) => point(axis, value).join(',')).join(' ');
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-lg mx-auto text-slate-300 dark:text-slate-600">
+      {[0.25, 0.5, 0.75, 1].map(ring => (
+        <polygon key={ring} points={polygon(METRICS.map(() => ring))} fill="none" stroke="currentColor" />
+      ))}
+      {METRICS.map((metric, axis) => {
+        const [x, y] = point(axis, 1);
+        const [labelX, labelY] = point(axis, 1.2);
+        return (
+          <g key={metric}>
+            <line x1={width / 2} y1={height / 2} x2={x} y2={y} stroke="currentColor" />
+            <text x={labelX} y={labelY} textAnchor="middle" dominantBaseline="middle" fontSize="9" className="fill-slate-600 dark:fill-slate-300">{RESULT_METRICS[metric].label}</text>
+          </g>
+        );
+      })}
+      {ranked.filter(entry => visible.includes(entry.result)).map((entry, i) => (
+        <polygon
+          key={i}
+          points={polygon(METRICS.map(metric => entry.scores[metric]))}
+          fill={colorOf(entry.result)}
+          fillOpacity={0.15}
+          stroke={colorOf(entry.result)}
+          strokeWidth={2}
+        >
+          <title>{entry.result.name}</title>
+        </polygon>
+      ))}
+    </svg>
+  );
+};
+
+const ComparisonDashboard: React.FC<ComparisonDashboardProps> = ({ results }) => {
+  const [weights, setWeights] = useState<MetricWeights>(DEFAULT_METRIC_WEIGHTS);
+  // Algorithms drawn on the radar chart, by their index in `results`; null shows the three best.
+  // Names can repeat (a custom policy may share a built-in's name), so results are told apart by
+  // index, here and in the keys below.
+  const [radarIndices, setRadarIndices] = useState<number[] | null>(null);
+
+  const charted = results.filter(result => !result.error);
+  const indexOf = (result: AlgorithmResult) => results.indexOf(result);
+  const colorOf: ColorOf = result => SERIES_COLORS[indexOf(result) % SERIES_COLORS.length];
+  const ranked = rankResults(results, weights);
+  if (ranked.length < 2) return null;
+  const [best, runnerUp] = ranked;
+  const radarVisible = radarIndices
+    ? charted.filter(result => radarIndices.includes(indexOf(result)))
+    : ranked.slice(0, 3).map(entry => entry.result);
+
+  const toggleRadar = (result: AlgorithmResult) => {
+    const indices = radarVisible.map(indexOf);
+    setRadarIndices(indices.includes(indexOf(result)) ? indices.filter(index => index !== indexOf(result)) : [...indices, indexOf(result)]);
+  };
+
+  return (
+    <div className="mb-10 space-y-8">
+      <div className="p-4 rounded-lg border border-emerald-300 dark:border-emerald-700 bg-emerald-50 dark:bg-emerald-900/30 text-center">
+        <p className="text-sm text-emerald-800 dark:text-emerald-300">Best algorithm for this workload, by the weights below</p>
+        <p className="text-2xl font-bold text-emerald-700 dark:text-emerald-300">{best.result.name}</p>
+        <p className="text-sm text-emerald-800 dark:text-emerald-300">
+          Score {(best.total * 100).toFixed(1)}%{runnerUp.total >= best.total - 1e-9 ? `, tied with ${runnerUp.result.name}` : `, ahead of ${runnerUp.result.name} (${(runnerUp.total * 100).toFixed(1)}%)`}
+        </p>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="text-lg font-semibold text-slate-700 dark:text-slate-300">Metric Weights</h4>
+          <button onClick={() => setWeights(DEFAULT_METRIC_WEIGHTS)} className="text-sm font-semibold text-fuchsia-700 dark:text-fuchsia-400 hover:underline">Reset</button>
+        </div>
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+          {METRICS.map(metric => (
+            <div key={metric}>
+              <label htmlFor={`weight-${metric}`} className="block text-xs font-medium text-slate-600 dark:text-slate-300 mb-1 truncate" title={RESULT_METRICS[metric].label}>{RESULT_METRICS[metric].label}</label>
+              <input
+                id={`weight-${metric}`}
+                type="number"
+                value={weights[metric]}
+                onChange={e => setWeights({ ...weights, [metric]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                min="0"
+                step="0.5"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <h4 className="text-lg font-semibold mb-2 text-slate-700 dark:text-slate-300">Ranking</h4>
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-100 dark:bg-slate-700/50 border-b-2 border-slate-300 dark:border-slate-600">
+            <tr>
+              <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Rank</th>
+              <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Algorithm</th>
+              <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Weighted Score</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map((entry, i) => (
+              <tr key={indexOf(entry.result)} className="border-b border-slate-200 dark:border-slate-700">
+                <td className="p-2">{i + 1}</td>
+                <td className="p-2 font-bold" style={{ color: colorOf(entry.result) }}>{entry.result.name}</td>
+                <td className="p-2">
+                  <div className="flex items-center gap-2">
+                    <div className="w-32 bg-slate-200 dark:bg-slate-700 rounded-full h-2.5">
+                      <div className="h-2.5 rounded-full" style={{ width: `${entry.total * 100}%`, backgroundColor: colorOf(entry.result) }}></div>
+                    </div>
+                    {(entry.total * 100).toFixed(1)}%
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h4 className="text-lg font-semibold mb-2 text-slate-700 dark:text-slate-300">Metrics by Algorithm</h4>
+        <div className="flex flex-wrap gap-2 mb-4">
+          {charted.map(result => (
+            <button
+              key={indexOf(result)}
+              onClick={() => toggleRadar(result)}
+              title="Show or hide on the radar chart"
+              className={`flex items-center gap-1 text-xs font-semibold py-1 px-2 rounded-full border transition duration-200 ${radarVisible.includes(result) ? 'border-slate-400 dark:border-slate-400 text-slate-700 dark:text-slate-200' : 'border-slate-200 dark:border-slate-700 text-slate-400 dark:text-slate-500'}`}
+            >
+              <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: colorOf(result) }}></span>
+              {result.name}
+            </button>
+          ))}
+        </div>
+        <RadarChart ranked={ranked} visible={radarVisible} colorOf={colorOf} />
+        <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          {METRICS.map(metric => <MetricBars key={metric} metric={metric} results={charted} colorOf={colorOf} />)}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ComparisonDashboard;
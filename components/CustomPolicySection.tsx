@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import type { CustomPolicy } from '../types';
+import { CUSTOM_POLICY_STEP_BUDGET, CUSTOM_POLICY_TIMEOUT_MS, DEFAULT_CUSTOM_POLICY_CODE } from '../constants';
+
+interface CustomPolicySectionProps {
+  policies: CustomPolicy[];
+  onSavePolicy: (policy: CustomPolicy) => void;
+  onDeletePolicy: (id: number) => void;
+  onSimulatePolicy: (policy: CustomPolicy) => void;
+  isSimulating: boolean;
+}
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none";
+
+
+const CustomPolicySection: React.FC<CustomPolicySectionProps> = ({
+  policies,
+  onSavePolicy,
+  onDeletePolicy,
+  onSimulatePolicy,
+  isSimulating,
+}) => {
+  // The policy being edited; null for a new, unsaved one.
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState('My Policy');
+  const [code, setCode] = useState(DEFAULT_CUSTOM_POLICY_CODE);
+
+  const editPolicy = (policy: CustomPolicy | null) => {
+    setEditingId(policy?.id ?? null);
+    setName(policy?.name ?? 'My Policy');
+    setCode(policy?.code ?? DEFAULT_CUSTOM_POLICY_CODE);
+  };
+
+  const currentPolicy = (): CustomPolicy => ({
+    id: editingId ?? (policies.length > 0 ? Math.max(...policies.map(p => p.id)) + 1 : 1),
+    name: name.trim() || 'Custom Policy',
+    code,
+  });
+
+  const handleSave = () => {
+    const policy = currentPolicy();
+    onSavePolicy(policy);
+    setEditingId(policy.id);
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md flex flex-col gap-6 mt-8">
+      <div>
+        <h2 className="text-2xl font-bold mb-4 text-fuchsia-600 dark:text-fuchsia-400">Custom Policies</h2>
+
+        {policies.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {policies.map(policy => (
+              <button
+                key={policy.id}
+                onClick={() => editPolicy(policy)}
+                disabled={isSimulating}
+                className={`text-sm font-semibold py-1 px-3 rounded-full border transition duration-200 ${policy.id === editingId ? 'bg-fuchsia-600 text-white border-fuchsia-600' : 'border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:border-fuchsia-500'}`}
+              >
+                {policy.name}
+              </button>
+            ))}
+            <button
+              onClick={() => editPolicy(null)}
+              disabled={isSimulating}
+              className="text-sm font-semibold py-1 px-3 rounded-full border border-dashed border-slate-300 dark:border-slate-600 text-slate-500 dark:text-slate-400 hover:border-fuchsia-500"
+            >
+              + New
+            </button>
+          </div>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="customPolicyName" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Name</label>
+            <input id="customPolicyName" type="text" value={name} onChange={e => setName(e.target.value)} className={inputClassName} />
+          </div>
+          <div>
+            <label htmlFor="customPolicyCode" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Code (JavaScript or TypeScript)</label>
+            <textarea
+              id="customPolicyCode"
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              rows={14}
+              spellCheck={false}
+              className={`${inputClassName} font-mono text-xs leading-5 whitespace-pre`}
+            />
+            <p className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+              Runs in a sandboxed worker, limited to {CUSTOM_POLICY_STEP_BUDGET.toLocaleString()} steps and {CUSTOM_POLICY_TIMEOUT_MS / 1000} seconds. Saved policies also run in Compare All.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 pt-6 border-t border-slate-200 dark:border-slate-700">
+        <button onClick={handleSave} disabled={isSimulating} className="w-full bg-fuchsia-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-fuchsia-700 dark:hover:bg-fuchsia-500 transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 active:scale-95">Save</button>
+        <button onClick={() => onSimulatePolicy(currentPolicy())} disabled={isSimulating} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 active:scale-95">Run Live</button>
+        <button
+          onClick={() => { onDeletePolicy(editingId!); editPolicy(null); }}
+          disabled={isSimulating || editingId === null}
+          className="w-full bg-rose-600 hover:bg-rose-700 text-white font-semibold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 active:scale-95"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CustomPolicySection;
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { ExperimentReport, MeanEstimate, ResultMetric } from '../types';
+import { RESULT_METRICS } from '../constants';
+import { experimentCsv } from '../services/experiment';
+
+interface ExperimentResultsProps {
+  // Null while the experiment is still running.
+  report: ExperimentReport | null;
+  progress: number;
+  trials: number;
+}
+
+const formatEstimate = ({ mean, halfWidth }: MeanEstimate): string => `${mean.toFixed(2)} ± ${halfWidth.toFixed(2)}`;
+
+const downloadCsv = (report: ExperimentReport) => {
+  const url = URL.createObjectURL(new Blob([experimentCsv(report)], { type: 'text/csv' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `experiment-seed-${report.config.seed}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const ExperimentResults: React.FC<ExperimentResultsProps> = ({ report, progress, trials }) => {
+  if (!report) {
+    return (
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md text-center">
+        <h2 className="text-3xl font-bold mb-4 text-fuchsia-600 dark:text-fuchsia-400">Experiment Results</h2>
+        <p className="text-slate-500 dark:text-slate-400 mb-2">Running trial {Math.min(progress + 1, trials)} of {trials}…</p>
+        <div className="w-full bg-slate-200 dark:bg-slate-700 rounded-full h-2.5">
+          <div className="bg-fuchsia-600 h-2.5 rounded-full transition-all duration-300 ease-in-out" style={{ width: `${(progress / trials) * 100}%` }}></div>
+        </div>
+      </div>
+    );
+  }
+
+  const { config } = report;
+  const metrics = Object.keys(RESULT_METRICS) as ResultMetric[];
+  const sign = RESULT_METRICS[config.metric].higherIsBetter ? -1 : 1;
+  const summaries = [...report.summaries].sort((a, b) => sign * (a.metrics[config.metric].mean - b.metrics[config.metric].mean));
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md">
+      <h2 className="text-3xl font-bold text-center mb-2 text-fuchsia-600 dark:text-fuchsia-400">Experiment Results</h2>
+      <p className="text-center text-sm text-slate-500 dark:text-slate-400 mb-4">
+        {config.trials} workloads of {config.minProcesses}–{config.maxProcesses} processes (seed {config.seed}), bursts {config.minBurst}–{config.maxBurst}, arrivals up to {config.maxArrivalTime}.
+        Means with 95% confidence intervals; wins and losses by {RESULT_METRICS[config.metric].label.toLowerCase()}, best first.
+      </p>
+      <div className="flex justify-center mb-4">
+        <button
+          onClick={() => downloadCsv(report)}
+          className="bg-emerald-600 hover:bg-emerald-700 text-white font-semibold py-2 px-4 rounded-md transition duration-200 active:scale-95"
+        >
+          Export Trials as CSV
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-100 dark:bg-slate-700/50 border-b-2 border-slate-300 dark:border-slate-600">
+            <tr>
+              <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Algorithm</th>
+              <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Wins</th>
+              <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Losses</th>
+              {metrics.map(metric => (
+                <th key={metric} className={`p-2 font-semibold whitespace-nowrap ${metric === config.metric ? 'text-fuchsia-700 dark:text-fuchsia-400' : 'text-slate-600 dark:text-slate-300'}`}>{RESULT_METRICS[metric].label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => (
+              <tr key={summary.algorithm} className="border-b border-slate-200 dark:border-slate-700">
+                <td className="p-2 font-bold">{summary.algorithm}</td>
+                <td className="p-2">{summary.wins}</td>
+                <td className="p-2">{summary.losses}</td>
+                {metrics.map(metric => (
+                  <td key={metric} className="p-2 whitespace-nowrap">{formatEstimate(summary.metrics[metric])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ExperimentResults;
@@ -0,0 +1,78 @@
+import React from 'react';
+import type { ExperimentConfig, ResultMetric } from '../types';
+import { MAX_EXPERIMENT_PROCESSES, MAX_EXPERIMENT_TRIALS, RESULT_METRICS } from '../constants';
+
+interface ExperimentSectionProps {
+  config: ExperimentConfig;
+  onConfigChange: (config: ExperimentConfig) => void;
+  onRun: () => void;
+  isSimulating: boolean;
+}
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none";
+
+// The whole-number settings, in the order they are laid out.
+const NUMBER_FIELDS: { key: Exclude<keyof ExperimentConfig, 'metric'>, label: string, min: number, max?: number }[] = [
+  { key: 'trials', label: 'Trials', min: 1, max: MAX_EXPERIMENT_TRIALS },
+  { key: 'seed', label: 'Seed', min: 0 },
+  { key: 'minProcesses', label: 'Min. Processes', min: 1, max: MAX_EXPERIMENT_PROCESSES },
+  { key: 'maxProcesses', label: 'Max. Processes', min: 1, max: MAX_EXPERIMENT_PROCESSES },
+  { key: 'minBurst', label: 'Min. Burst', min: 1 },
+  { key: 'maxBurst', label: 'Max. Burst', min: 1 },
+  { key: 'maxArrivalTime', label: 'Max. Arrival', min: 0 },
+];
+
+
+const ExperimentSection: React.FC<ExperimentSectionProps> = ({ config, onConfigChange, onRun, isSimulating }) => (
+  <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md flex flex-col gap-6 mt-8">
+    <div>
+      <h2 className="text-2xl font-bold mb-4 text-fuchsia-600 dark:text-fuchsia-400">Experiments</h2>
+      <p className="mb-4 text-sm text-slate-500 dark:text-slate-400">
+        Runs every built-in algorithm, with the settings above, on random workloads from a seeded generator, and reports mean metrics with 95% confidence intervals.
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+        {NUMBER_FIELDS.map(field => (
+          <div key={field.key}>
+            <label htmlFor={`experiment-${field.key}`} className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">{field.label}</label>
+            <input
+              id={`experiment-${field.key}`}
+              type="number"
+              value={config[field.key]}
+              onChange={e => onConfigChange({ ...config, [field.key]: parseInt(e.target.value, 10) || 0 })}
+              min={field.min}
+              max={field.max}
+              disabled={isSimulating}
+              className={inputClassName}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="mt-4">
+        <label htmlFor="experimentMetric" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Wins and Losses By</label>
+        <select
+          id="experimentMetric"
+          value={config.metric}
+          onChange={e => onConfigChange({ ...config, metric: e.target.value as ResultMetric })}
+          disabled={isSimulating}
+          className={inputClassName}
+        >
+          {(Object.keys(RESULT_METRICS) as ResultMetric[]).map(metric => (
+            <option key={metric} value={metric}>{RESULT_METRICS[metric].label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+
+    <div className="pt-6 border-t border-slate-200 dark:border-slate-700">
+      <button
+        onClick={onRun}
+        disabled={isSimulating}
+        className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 active:scale-95"
+      >
+        Run Experiment
+      </button>
+    </div>
+  </div>
+);
+
+export default ExperimentSection;
@@ -1,9 +1,12 @@
 import React from 'react';
-import type { GanttEntry } from '../types';
+import type { GanttEntry, TimeMarker } from '../types';
 
 interface GanttChartProps {
   chartData: GanttEntry[];
   totalTime: number;
+  markers?: TimeMarker[];
+  // Number of cores on a multiprocessor run; each core gets its own lane.
+  cores?: number;
 }
 
 interface CombinedGanttSegment {
@@ -11,13 +14,14 @@ interface CombinedGanttSegment {
   color: string;
   start: number;
   end: number;
+  kind?: GanttEntry['kind'];
   parts: GanttEntry[]; 
 }
 
 /**
  * Filters an array of timestamps to prevent them from visually overlapping on the chart.
  */
-const filterTimestamps = (allTimestamps: number[], totalDuration: number, minSpacingPercent: number = 3): number[] => {
+export const filterTimestamps = (allTimestamps: number[], totalDuration: number, minSpacingPercent: number = 3): number[] => {
     if (totalDuration === 0) return [0];
     const sorted = [...new Set(allTimestamps)].sort((a, b) => a - b);
     if (sorted.length < 2) return sorted;
@@ -54,14 +58,14 @@ const filterTimestamps = (allTimestamps: number[], totalDuration: number, minSpa
  * Combines adjacent Gantt chart entries for the same process.
  * This is the core fix for the visual repetition issue.
  */
-const combineGanttSegments = (chartData: GanttEntry[]): CombinedGanttSegment[] => {
+export const combineGanttSegments = (chartData: GanttEntry[]): CombinedGanttSegment[] => {
     if (!chartData || chartData.length === 0) return [];
     
     const combined: CombinedGanttSegment[] = [];
     let currentCombinedSegment: CombinedGanttSegment | null = null;
 
     for (const entry of chartData) {
-        if (currentCombinedSegment && currentCombinedSegment.processName === entry.processName) {
+        if (currentCombinedSegment && currentCombinedSegment.processName === entry.processName && currentCombinedSegment.kind === entry.kind && currentCombinedSegment.end === entry.start) {
             currentCombinedSegment.end = entry.end;
             currentCombinedSegment.parts.push(entry);
         } else {
@@ -73,6 +77,7 @@ const combineGanttSegments = (chartData: GanttEntry[]): CombinedGanttSegment[] =
                 color: entry.color,
                 start: entry.start,
                 end: entry.end,
+                kind: entry.kind,
                 parts: [entry],
             };
         }
@@ -85,53 +90,113 @@ const combineGanttSegments = (chartData: GanttEntry[]): CombinedGanttSegment[] =
     return combined;
 };
 
+/**
+ * Merges markers of the same kind at the same time into one, so simultaneous
+ * releases show a single arrow whose tooltip lists every job.
+ */
+const groupMarkers = (markers: TimeMarker[], kind: TimeMarker['kind']): { time: number; label: string }[] => {
+    const byTime = new Map<number, string[]>();
+    markers.filter(m => m.kind === kind).forEach(m => {
+        byTime.set(m.time, [...(byTime.get(m.time) ?? []), m.label]);
+    });
+    return [...byTime.entries()].map(([time, labels]) => ({ time, label: labels.join(', ') }));
+};
+
+
+interface GanttLaneProps {
+  segments: CombinedGanttSegment[];
+  misses: { time: number; label: string }[];
+  displayTime: number;
+}
 
-const GanttChart: React.FC<GanttChartProps> = ({ chartData, totalTime }) => {
+export const GanttLane: React.FC<GanttLaneProps> = ({ segments, misses, displayTime }) => (
+  <div className="relative w-full h-10 bg-slate-200 dark:bg-slate-700 rounded overflow-hidden border border-slate-300 dark:border-slate-600">
+    {segments.map((segment, index) => {
+        const segmentWidthPercent = ((segment.end - segment.start) / displayTime) * 100;
+        const isSwitch = segment.kind === 'switch';
+        const showText = !isSwitch && segmentWidthPercent > segment.processName.length * 1.5;
+
+        return (
+            <div
+                key={index}
+                className={`absolute h-full ${isSwitch ? 'bg-slate-400 dark:bg-slate-500' : segment.color} overflow-hidden flex items-center justify-center border-r border-slate-900/20`}
+                style={{
+                    left: `${(segment.start / displayTime) * 100}%`,
+                    width: `${segmentWidthPercent}%`,
+                    minWidth: '2px',
+                    transition: 'all 0.3s ease-in-out',
+                    // Hatching sets switch overhead apart from useful work.
+                    backgroundImage: isSwitch ? 'repeating-linear-gradient(45deg, rgba(255,255,255,0.35) 0 4px, transparent 4px 8px)' : undefined,
+                }}
+                title={isSwitch ? `Context switch to ${segment.processName} (${segment.start} - ${segment.end})` : `${segment.processName} (${segment.start} - ${segment.end})`}
+                aria-label={isSwitch ? `Context switch to ${segment.processName}, from time ${segment.start} to ${segment.end}` : `Process ${segment.processName}, from time ${segment.start} to ${segment.end}`}
+            >
+                {/* Internal dividers to show preemption */}
+                {segment.parts.length > 1 && segment.parts.slice(0, -1).map(part => (
+                    <div 
+                        key={`divider-${part.start}`}
+                        className="absolute top-0 h-full w-0.5 bg-white/50"
+                        style={{
+                            left: `${((part.end - segment.start) / (segment.end - segment.start)) * 100}%`
+                        }}
+                    />
+                ))}
+
+                {showText && (
+                    <span className="relative text-white text-xs font-bold whitespace-nowrap px-1 select-none z-10">
+                        {segment.processName}
+                    </span>
+                )}
+            </div>
+        );
+    })}
+    {misses.map(miss => (
+        <div
+            key={`miss-${miss.time}`}
+            className="absolute top-0 h-full w-1 -translate-x-1/2 bg-red-600 z-20"
+            style={{ left: `${(miss.time / displayTime) * 100}%` }}
+            title={`t=${miss.time}: ${miss.label}`}
+            aria-label={`Deadline missed at time ${miss.time}: ${miss.label}`}
+        />
+    ))}
+  </div>
+);
+
+
+const GanttChart: React.FC<GanttChartProps> = ({ chartData, totalTime, markers = [], cores = 1 }) => {
   const displayTime = Math.max(totalTime, 1);
   const allTimestamps = [0, ...chartData.map(entry => entry.end)];
   const displayTimestamps = filterTimestamps(allTimestamps, displayTime);
-  const combinedSegments = combineGanttSegments(chartData);
+  const lanes = cores > 1
+    ? Array.from({ length: cores }, (_, core) => combineGanttSegments(chartData.filter(entry => entry.core === core)))
+    : [combineGanttSegments(chartData)];
+  const releases = groupMarkers(markers, 'release');
+  const misses = groupMarkers(markers, 'deadline-miss');
 
   return (
     <div className="mt-8">
       <h4 className="text-lg font-semibold mb-2 text-slate-700 dark:text-slate-300">Gantt Chart</h4>
-      <div className="relative w-full h-10 bg-slate-200 dark:bg-slate-700 rounded overflow-hidden border border-slate-300 dark:border-slate-600">
-        {combinedSegments.map((segment, index) => {
-            const segmentWidthPercent = ((segment.end - segment.start) / displayTime) * 100;
-            const showText = segmentWidthPercent > segment.processName.length * 1.5;
-
-            return (
-                <div
-                    key={index}
-                    className={`absolute h-full ${segment.color} overflow-hidden flex items-center justify-center border-r border-slate-900/20`}
-                    style={{
-                        left: `${(segment.start / displayTime) * 100}%`,
-                        width: `${segmentWidthPercent}%`,
-                        minWidth: '2px',
-                        transition: 'all 0.3s ease-in-out',
-                    }}
-                    title={`${segment.processName} (${segment.start} - ${segment.end})`}
-                    aria-label={`Process ${segment.processName}, from time ${segment.start} to ${segment.end}`}
-                >
-                    {/* Internal dividers to show preemption */}
-                    {segment.parts.length > 1 && segment.parts.slice(0, -1).map(part => (
-                        <div 
-                            key={`divider-${part.start}`}
-                            className="absolute top-0 h-full w-0.5 bg-white/50"
-                            style={{
-                                left: `${((part.end - segment.start) / (segment.end - segment.start)) * 100}%`
-                            }}
-                        />
-                    ))}
-
-                    {showText && (
-                        <span className="relative text-white text-xs font-bold whitespace-nowrap px-1 select-none z-10">
-                            {segment.processName}
-                        </span>
-                    )}
-                </div>
-            );
-        })}
+      {releases.length > 0 && (
+        <div className="relative w-full h-3 mb-0.5" aria-label="Job releases">
+          {releases.map(release => (
+            <div
+              key={`release-${release.time}`}
+              className="absolute -translate-x-1/2 text-[10px] leading-3 text-sky-600 dark:text-sky-400 select-none"
+              style={{ left: `${(release.time / displayTime) * 100}%` }}
+              title={`t=${release.time}: ${release.label}`}
+            >
+              ▼
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="space-y-1">
+        {lanes.map((segments, core) => (
+          <div key={core}>
+            {cores > 1 && <p className="text-xs font-semibold text-slate-500 dark:text-slate-400 mb-0.5">CPU {core + 1}</p>}
+            <GanttLane segments={segments} misses={misses} displayTime={displayTime} />
+          </div>
+        ))}
       </div>
       <div className="relative w-full h-4 mt-1 text-xs text-slate-500 dark:text-slate-400">
         {displayTimestamps.map(t => (
@@ -1,32 +1,80 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence, Reorder } from 'framer-motion';
-import type { Process } from '../types';
+import type { Process, MlfqConfig, MultilevelQueueConfig, QueueClass, QueueAlgorithm, QueueClassConfig, AgingConfig, ProportionalShareConfig, CfsConfig, FairShareConfig, RoundRobinConfig, PredictionConfig, RoundRobinQueueOrder, RoundRobinQuantumMode, MachineConfig, QueueTopology, TieBreakRule, QuantumSweepConfig } from '../types';
+import { QUEUE_CLASSES, MIN_NICE, MAX_NICE, MAX_CORES, DEFAULT_GROUP, TIE_BREAK_LABELS } from '../constants';
+import { formatBurstSequence } from '../services/bursts';
 import Tooltip from './Tooltip';
 
 interface InputSectionProps {
-  onAddProcess: (arrivalTime: number, burstTime: number, priority: number | null) => boolean;
+  onAddProcess: (arrivalTime: number, burstTime: number, priority: number | null, queueClass: QueueClass, group: string, tickets: number, nice: number, affinity: number | null, burstSequence: string, burstHistory: string) => boolean;
   onRemoveProcess: (id: number) => void;
   onReorderProcesses: (processes: Process[]) => void;
   onReset: () => void;
   onCompareAll: () => void;
+  onRunSweep: () => void;
   onSimulateFCFS: () => void;
   onSimulateSJF: () => void;
+  onSimulateHRRN: () => void;
   onSimulateSRTF: () => void;
+  onSimulatePredictedSJF: () => void;
+  onSimulatePredictedSRTF: () => void;
+  onSimulateLJF: () => void;
+  onSimulateLRTF: () => void;
   onSimulatePriorityNP: () => void;
   onSimulatePriorityP: () => void;
   onSimulateRR: () => void;
-  timeQuantum: number;
-  onTimeQuantumChange: (tq: number) => void;
+  onSimulateMLFQ: () => void;
+  onSimulateMLQ: () => void;
+  onSimulateLottery: () => void;
+  onSimulateStride: () => void;
+  onSimulateCFS: () => void;
+  onSimulateFairShare: () => void;
+  rrConfig: RoundRobinConfig;
+  onRrConfigChange: (config: RoundRobinConfig) => void;
+  sweepConfig: QuantumSweepConfig;
+  onSweepConfigChange: (config: QuantumSweepConfig) => void;
+  mlfqConfig: MlfqConfig;
+  onMlfqConfigChange: (config: MlfqConfig) => void;
+  mlqConfig: MultilevelQueueConfig;
+  onMlqConfigChange: (config: MultilevelQueueConfig) => void;
+  agingConfig: AgingConfig;
+  onAgingConfigChange: (config: AgingConfig) => void;
+  shareConfig: ProportionalShareConfig;
+  onShareConfigChange: (config: ProportionalShareConfig) => void;
+  cfsConfig: CfsConfig;
+  onCfsConfigChange: (config: CfsConfig) => void;
+  predictionConfig: PredictionConfig;
+  onPredictionConfigChange: (config: PredictionConfig) => void;
+  fairShareConfig: FairShareConfig;
+  onFairShareConfigChange: (config: FairShareConfig) => void;
+  machineConfig: MachineConfig;
+  onMachineConfigChange: (config: MachineConfig) => void;
   processes: Process[];
   isSimulating: boolean;
 }
 
 const FCFS_DESC = "First-Come, First-Served: Processes run in arrival order. Simple & fair, but can be slow.";
 const SJF_DESC = "Shortest Job First (Non-Preemptive): The shortest available job runs next. Efficient, but can starve long jobs.";
+const HRRN_DESC = "Highest Response Ratio Next (Non-Preemptive): Runs the job with the highest (waiting + burst) / burst. Favors short jobs, but long jobs age into the lead instead of starving.";
 const SRTF_DESC = "Shortest Remaining Time First (Preemptive): CPU switches to a new, shorter job if one arrives. Optimal for average wait time.";
+const PREDICTED_SJF_DESC = "Predicted SJF (Non-Preemptive): Burst lengths are not known in advance, so the shortest predicted burst runs next. Predictions are exponential averages of past bursts.";
+const PREDICTED_SRTF_DESC = "Predicted SRTF (Preemptive): Like SRTF, but ranks jobs by predicted remaining time, estimated by exponential averaging of past bursts.";
+const LJF_DESC = "Longest Job First (Non-Preemptive): The longest available job runs next. Short jobs pile up behind it, showing the convoy effect at its worst.";
+const LRTF_DESC = "Longest Remaining Time First (Preemptive): CPU switches to a new job if it has more work left. Maximizes average wait time, the mirror image of SRTF.";
 const PRIORITY_NP_DESC = "Priority (Non-Preemptive): The highest priority job runs next. Important jobs finish fast. (Lower number = higher priority).";
 const PRIORITY_P_DESC = "Priority (Preemptive): A new higher-priority job can interrupt the current one. Ensures urgent tasks are handled immediately.";
-const RR_DESC = "Round Robin: Each process gets a fixed time slice (quantum). Ensures fairness and responsiveness.";
+const SWEEP_DESC = "Quantum Sweep: Runs Round Robin once per quantum in the sweep range and plots waiting, turnaround and response time and context switches against the quantum, with FCFS and SRTF for reference.";
+const RR_DESC = "Round Robin: Each process runs for a time slice (quantum) in turn. The quantum can be fixed, dynamic, set per priority, or Virtual RR. Ensures fairness and responsiveness.";
+const MLFQ_DESC = "Multilevel Feedback Queue: Jobs start in the top queue and drop a level each time they use a full quantum. A periodic boost lifts everyone back to the top.";
+const MLQ_DESC = "Multilevel Queue: Each process lives in the queue of its class (system, interactive, batch), and each queue runs its own algorithm. Queues are arbitrated by fixed priority or by time slices.";
+const LOTTERY_DESC = "Lottery: Each process holds tickets and a seeded random draw picks who runs next quantum. CPU share tracks ticket share on average.";
+const STRIDE_DESC = "Stride: Deterministic proportional share. The process with the lowest pass runs, then advances by a stride inversely proportional to its tickets.";
+const CFS_DESC = "Completely Fair Scheduler: The process with the smallest virtual runtime runs next. Nice values set weights, and heavier processes accumulate vruntime more slowly.";
+const FAIR_SHARE_DESC = "Fair-Share: CPU time is split between groups by weight first, then evenly between each group's processes, so a group with many processes cannot crowd out a group with one.";
+
+const DEFAULT_TICKETS = 100;
+const MAX_MLFQ_LEVELS = 5;
+const QUEUE_ALGORITHMS: QueueAlgorithm[] = ['FCFS', 'SJF', 'RR'];
 
 
 const InputSection: React.FC<InputSectionProps> = ({
@@ -35,34 +83,110 @@ const InputSection: React.FC<InputSectionProps> = ({
   onReorderProcesses,
   onReset,
   onCompareAll,
+  onRunSweep,
   onSimulateFCFS,
   onSimulateSJF,
+  onSimulateHRRN,
   onSimulateSRTF,
+  onSimulatePredictedSJF,
+  onSimulatePredictedSRTF,
+  onSimulateLJF,
+  onSimulateLRTF,
   onSimulatePriorityNP,
   onSimulatePriorityP,
   onSimulateRR,
-  timeQuantum,
-  onTimeQuantumChange,
+  onSimulateMLFQ,
+  onSimulateMLQ,
+  onSimulateLottery,
+  onSimulateStride,
+  onSimulateCFS,
+  onSimulateFairShare,
+  rrConfig,
+  onRrConfigChange,
+  sweepConfig,
+  onSweepConfigChange,
+  mlfqConfig,
+  onMlfqConfigChange,
+  mlqConfig,
+  onMlqConfigChange,
+  agingConfig,
+  onAgingConfigChange,
+  shareConfig,
+  onShareConfigChange,
+  cfsConfig,
+  onCfsConfigChange,
+  predictionConfig,
+  onPredictionConfigChange,
+  fairShareConfig,
+  onFairShareConfigChange,
+  machineConfig,
+  onMachineConfigChange,
   processes,
   isSimulating,
 }) => {
   const [arrivalTime, setArrivalTime] = useState('');
   const [burstTime, setBurstTime] = useState('');
   const [priority, setPriority] = useState('');
+  const [queueClass, setQueueClass] = useState<QueueClass>('interactive');
+  const [group, setGroup] = useState('');
+  const [tickets, setTickets] = useState('');
+  const [nice, setNice] = useState('');
+  const [pinnedCpu, setPinnedCpu] = useState('');
+  const [burstSequence, setBurstSequence] = useState('');
+  const [burstHistory, setBurstHistory] = useState('');
+  const [priorityQuanta, setPriorityQuanta] = useState(rrConfig.priorityQuanta.join(', '));
+
+  const handleMlfqLevelsChange = (levels: number) => {
+    const quanta = mlfqConfig.quanta.slice(0, levels);
+    while (quanta.length < levels) {
+      quanta.push(quanta.length > 0 ? quanta[quanta.length - 1] * 2 : 2);
+    }
+    onMlfqConfigChange({ ...mlfqConfig, quanta });
+  };
+
+  const handleMlfqQuantumChange = (level: number, quantum: number) => {
+    const quanta = mlfqConfig.quanta.map((q, i) => i === level ? quantum : q);
+    onMlfqConfigChange({ ...mlfqConfig, quanta });
+  };
+
+  // Applied once the list parses; until then the text box keeps what is being typed.
+  const handlePriorityQuantaChange = (text: string) => {
+    setPriorityQuanta(text);
+    const quanta = text.split(',').map(q => parseFloat(q));
+    if (quanta.length > 0 && quanta.every(q => q > 0)) onRrConfigChange({ ...rrConfig, priorityQuanta: quanta });
+  };
+
+  const handleMlqQueueChange = (target: QueueClass, changes: Partial<QueueClassConfig>) => {
+    onMlqConfigChange({
+      ...mlqConfig,
+      queues: { ...mlqConfig.queues, [target]: { ...mlqConfig.queues[target], ...changes } },
+    });
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const at = parseInt(arrivalTime, 10);
-    const bt = parseInt(burstTime, 10);
+    const at = parseFloat(arrivalTime);
+    const bt = parseFloat(burstTime);
     const p = priority === '' ? null : parseInt(priority, 10);
+    const t = tickets === '' ? DEFAULT_TICKETS : parseInt(tickets, 10);
+    const n = nice === '' ? 0 : parseInt(nice, 10);
+    const cpu = pinnedCpu === '' ? null : parseInt(pinnedCpu, 10) - 1;
+    const g = group.trim() || DEFAULT_GROUP;
     
-    if (onAddProcess(at, bt, p)) {
+    if (onAddProcess(at, bt, p, queueClass, g, t, n, cpu, burstSequence, burstHistory)) {
       setArrivalTime('');
       setBurstTime('');
       setPriority('');
+      setTickets('');
+      setNice('');
+      setPinnedCpu('');
+      setBurstSequence('');
+      setBurstHistory('');
     }
   };
   
+  const groups = [...new Set<string>(processes.map(p => p.group))].sort();
+
   const SimulatingSpinner = () => (
     <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -86,6 +210,7 @@ const InputSection: React.FC<InputSectionProps> = ({
                   onChange={e => setArrivalTime(e.target.value)}
                   placeholder="e.g., 0"
                   min="0"
+                  step="any"
                   required
                   className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
                 />
@@ -98,8 +223,10 @@ const InputSection: React.FC<InputSectionProps> = ({
                   value={burstTime}
                   onChange={e => setBurstTime(e.target.value)}
                   placeholder="e.g., 5"
-                  min="1"
-                  required
+                  min="0"
+                  step="any"
+                  required={burstSequence.trim() === ''}
+                  disabled={burstSequence.trim() !== ''}
                   className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
                 />
               </div>
@@ -115,6 +242,90 @@ const InputSection: React.FC<InputSectionProps> = ({
                   className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
                 />
               </div>
+              <div>
+                <label htmlFor="queueClass" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Queue Class</label>
+                <select
+                  id="queueClass"
+                  value={queueClass}
+                  onChange={e => setQueueClass(e.target.value as QueueClass)}
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                >
+                  {QUEUE_CLASSES.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="group" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Group</label>
+                <input
+                  id="group"
+                  type="text"
+                  value={group}
+                  onChange={e => setGroup(e.target.value)}
+                  placeholder={DEFAULT_GROUP}
+                  title="Owner or group of the process, for fair-share scheduling"
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="tickets" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Tickets</label>
+                <input
+                  id="tickets"
+                  type="number"
+                  value={tickets}
+                  onChange={e => setTickets(e.target.value)}
+                  placeholder={`${DEFAULT_TICKETS}`}
+                  min="1"
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="nice" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Nice</label>
+                <input
+                  id="nice"
+                  type="number"
+                  value={nice}
+                  onChange={e => setNice(e.target.value)}
+                  placeholder="0"
+                  min={MIN_NICE}
+                  max={MAX_NICE}
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="pinnedCpu" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Pin to CPU (Optional)</label>
+                <input
+                  id="pinnedCpu"
+                  type="number"
+                  value={pinnedCpu}
+                  onChange={e => setPinnedCpu(e.target.value)}
+                  placeholder="any"
+                  min="1"
+                  max={MAX_CORES}
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+            </div>
+            <div>
+              <label htmlFor="burstSequence" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Burst Sequence (Optional, replaces Burst Time)</label>
+              <input
+                id="burstSequence"
+                type="text"
+                value={burstSequence}
+                onChange={e => setBurstSequence(e.target.value)}
+                placeholder="e.g., CPU 4, IO 3, CPU 2"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="burstHistory" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Burst History (Optional, for predicted SJF/SRTF)</label>
+              <input
+                id="burstHistory"
+                type="text"
+                value={burstHistory}
+                onChange={e => setBurstHistory(e.target.value)}
+                placeholder="e.g., 6, 4, 6, 4"
+                title="Lengths of past CPU bursts, oldest first"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
             </div>
             <button
               type="submit"
@@ -139,6 +350,11 @@ const InputSection: React.FC<InputSectionProps> = ({
                                 <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Arrival</th>
                                 <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Burst</th>
                                 <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Priority</th>
+                                <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Queue</th>
+                                <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Group</th>
+                                <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Tickets</th>
+                                <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Nice</th>
+                                <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">CPU</th>
                                 <th className="p-2 font-semibold text-slate-600 dark:text-slate-300"></th>
                             </tr>
                         </thead>
@@ -165,8 +381,13 @@ const InputSection: React.FC<InputSectionProps> = ({
                                       </td>
                                       <td className={`p-2 font-bold ${p.color.replace('bg-', 'text-')}`}>{p.name}</td>
                                       <td className="p-2">{p.arrivalTime}</td>
-                                      <td className="p-2">{p.burstTime}</td>
+                                      <td className="p-2">{p.bursts ? formatBurstSequence(p.bursts) : p.burstTime}</td>
                                       <td className="p-2">{p.priority ?? 'N/A'}</td>
+                                      <td className="p-2">{p.queueClass}</td>
+                                      <td className="p-2">{p.group}</td>
+                                      <td className="p-2">{p.tickets}</td>
+                                      <td className="p-2">{p.nice}</td>
+                                      <td className="p-2">{p.affinity !== undefined ? p.affinity + 1 : 'any'}</td>
                                       <td className="p-2 text-right">
                                           <button onClick={() => onRemoveProcess(p.id)} className="text-rose-500 hover:text-rose-700 dark:hover:text-rose-400 text-xs font-semibold" disabled={isSimulating}>Remove</button>
                                       </td>
@@ -179,43 +400,487 @@ const InputSection: React.FC<InputSectionProps> = ({
             </div>
           )}
 
-          <div className="mt-6">
-            <label htmlFor="timeQuantum" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Round Robin Time Quantum</label>
-            <input
-              id="timeQuantum"
-              type="number"
-              value={timeQuantum}
-              onChange={e => onTimeQuantumChange(Math.max(1, parseInt(e.target.value, 10) || 1))}
-              min="1"
+          <div className="mt-6 grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div>
+              <label htmlFor="cpuCount" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">CPUs</label>
+              <input
+                id="cpuCount"
+                type="number"
+                value={machineConfig.cores}
+                onChange={e => onMachineConfigChange({ ...machineConfig, cores: Math.min(MAX_CORES, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                min="1"
+                max={MAX_CORES}
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="cpuTopology" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Ready Queues</label>
+              <select
+                id="cpuTopology"
+                value={machineConfig.topology}
+                onChange={e => onMachineConfigChange({ ...machineConfig, topology: e.target.value as QueueTopology })}
+                disabled={machineConfig.cores === 1}
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              >
+                <option value="global">Global</option>
+                <option value="per-core">Per core</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="balanceInterval" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Balance Every</label>
+              <input
+                id="balanceInterval"
+                type="number"
+                value={machineConfig.balanceInterval}
+                onChange={e => onMachineConfigChange({ ...machineConfig, balanceInterval: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                min="0"
+                disabled={machineConfig.cores === 1 || machineConfig.topology !== 'per-core'}
+                title="Time units between load-balancing passes (0 = only idle cores steal work)"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="contextSwitchCost" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Switch Cost</label>
+              <input
+                id="contextSwitchCost"
+                type="number"
+                value={machineConfig.contextSwitchCost}
+                onChange={e => onMachineConfigChange({ ...machineConfig, contextSwitchCost: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                min="0"
+                title="Time units a CPU spends on every context switch, in every algorithm (0 = free)"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <label htmlFor="tieBreak" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Break Ties By (all algorithms)</label>
+            <select
+              id="tieBreak"
+              value={machineConfig.tieBreak}
+              onChange={e => onMachineConfigChange({ ...machineConfig, tieBreak: e.target.value as TieBreakRule })}
+              title="Decides between processes that are otherwise equal, and the queue order of simultaneous arrivals"
               className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
-            />
+            >
+              {(Object.keys(TIE_BREAK_LABELS) as TieBreakRule[]).map(rule => <option key={rule} value={rule}>{TIE_BREAK_LABELS[rule]}</option>)}
+            </select>
+          </div>
+
+          <div className="mt-4 space-y-2">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="timeQuantum" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Round Robin Time Quantum</label>
+                <input
+                  id="timeQuantum"
+                  type="number"
+                  value={rrConfig.timeQuantum}
+                  onChange={e => onRrConfigChange({ ...rrConfig, timeQuantum: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  min="1"
+                  disabled={rrConfig.quantumMode !== 'fixed' && rrConfig.quantumMode !== 'virtual'}
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="rrQuantumMode" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">RR Quantum</label>
+                <select
+                  id="rrQuantumMode"
+                  value={rrConfig.quantumMode}
+                  onChange={e => onRrConfigChange({ ...rrConfig, quantumMode: e.target.value as RoundRobinQuantumMode })}
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                >
+                  <option value="fixed">Fixed</option>
+                  <option value="dynamic-mean">Dynamic (mean burst)</option>
+                  <option value="dynamic-median">Dynamic (median burst)</option>
+                  <option value="per-priority">Per priority</option>
+                  <option value="virtual">Virtual RR (I/O queue)</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="rrQueueOrder" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">RR Queue Order</label>
+                <select
+                  id="rrQueueOrder"
+                  value={rrConfig.queueOrder}
+                  onChange={e => onRrConfigChange({ ...rrConfig, queueOrder: e.target.value as RoundRobinQueueOrder })}
+                  title="Where a process whose quantum expires rejoins the queue, relative to processes arriving at the same moment"
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                >
+                  <option value="preempted-first">Preempted first</option>
+                  <option value="arrivals-first">Arrivals first</option>
+                </select>
+              </div>
+            </div>
+            {rrConfig.quantumMode === 'per-priority' && (
+              <div>
+                <label htmlFor="rrPriorityQuanta" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Quantum per Priority (0, 1, 2, ...)</label>
+                <input
+                  id="rrPriorityQuanta"
+                  type="text"
+                  value={priorityQuanta}
+                  onChange={e => handlePriorityQuantaChange(e.target.value)}
+                  placeholder="e.g., 8, 4, 2"
+                  title="The last quantum also applies to every lower priority"
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="sweepFrom" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Sweep Quantum From</label>
+                <input
+                  id="sweepFrom"
+                  type="number"
+                  value={sweepConfig.from}
+                  onChange={e => onSweepConfigChange({ ...sweepConfig, from: parseFloat(e.target.value) || 0 })}
+                  min="0"
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="sweepTo" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">To</label>
+                <input
+                  id="sweepTo"
+                  type="number"
+                  value={sweepConfig.to}
+                  onChange={e => onSweepConfigChange({ ...sweepConfig, to: parseFloat(e.target.value) || 0 })}
+                  min="0"
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="sweepStep" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Step</label>
+                <input
+                  id="sweepStep"
+                  type="number"
+                  value={sweepConfig.step}
+                  onChange={e => onSweepConfigChange({ ...sweepConfig, step: parseFloat(e.target.value) || 0 })}
+                  min="0"
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="predictionAlpha" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Prediction α</label>
+              <input
+                id="predictionAlpha"
+                type="number"
+                value={predictionConfig.alpha}
+                onChange={e => onPredictionConfigChange({ ...predictionConfig, alpha: Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                min="0"
+                max="1"
+                step="0.1"
+                title="Weight of the latest burst in the exponential average"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="predictionTau" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Initial Estimate τ₀</label>
+              <input
+                id="predictionTau"
+                type="number"
+                value={predictionConfig.initialTau}
+                onChange={e => onPredictionConfigChange({ ...predictionConfig, initialTau: Math.max(0, parseFloat(e.target.value) || 0) })}
+                min="0"
+                step="any"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="shareSeed" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Lottery Seed</label>
+              <input
+                id="shareSeed"
+                type="number"
+                value={shareConfig.seed}
+                onChange={e => onShareConfigChange({ ...shareConfig, seed: parseInt(e.target.value, 10) || 0 })}
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="shareQuantum" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Lottery / Stride Quantum</label>
+              <input
+                id="shareQuantum"
+                type="number"
+                value={shareConfig.quantum}
+                onChange={e => onShareConfigChange({ ...shareConfig, quantum: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                min="1"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="cfsLatency" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">CFS Target Latency</label>
+              <input
+                id="cfsLatency"
+                type="number"
+                value={cfsConfig.targetLatency}
+                onChange={e => onCfsConfigChange({ ...cfsConfig, targetLatency: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                min="1"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+            <div>
+              <label htmlFor="cfsGranularity" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">CFS Min Granularity</label>
+              <input
+                id="cfsGranularity"
+                type="number"
+                value={cfsConfig.minGranularity}
+                onChange={e => onCfsConfigChange({ ...cfsConfig, minGranularity: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                min="1"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="mt-4 grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="fairShareQuantum" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Fair-Share Quantum</label>
+              <input
+                id="fairShareQuantum"
+                type="number"
+                value={fairShareConfig.quantum}
+                onChange={e => onFairShareConfigChange({ ...fairShareConfig, quantum: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                min="1"
+                className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+              />
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Group Weights</span>
+              <div className="flex gap-2">
+                {groups.map(g => (
+                  <input
+                    key={g}
+                    type="number"
+                    value={fairShareConfig.groupWeights[g] ?? 1}
+                    onChange={e => onFairShareConfigChange({
+                      ...fairShareConfig,
+                      groupWeights: { ...fairShareConfig.groupWeights, [g]: Math.max(1, parseInt(e.target.value, 10) || 1) },
+                    })}
+                    min="1"
+                    aria-label={`CPU weight of group ${g}`}
+                    title={`Group ${g}`}
+                    className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-600 dark:text-slate-300">
+              <input
+                type="checkbox"
+                checked={agingConfig.enabled}
+                onChange={e => onAgingConfigChange({ ...agingConfig, enabled: e.target.checked })}
+                className="accent-fuchsia-600"
+              />
+              Priority Aging (both priority algorithms)
+            </label>
+            {agingConfig.enabled && (
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="agingInterval" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Aging Interval</label>
+                  <input
+                    id="agingInterval"
+                    type="number"
+                    value={agingConfig.interval}
+                    onChange={e => onAgingConfigChange({ ...agingConfig, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    min="1"
+                    className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="agingStep" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Aging Step</label>
+                  <input
+                    id="agingStep"
+                    type="number"
+                    value={agingConfig.step}
+                    onChange={e => onAgingConfigChange({ ...agingConfig, step: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                    min="1"
+                    className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-4 space-y-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="mlfqLevels" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">MLFQ Queues</label>
+                <input
+                  id="mlfqLevels"
+                  type="number"
+                  value={mlfqConfig.quanta.length}
+                  onChange={e => handleMlfqLevelsChange(Math.min(MAX_MLFQ_LEVELS, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                  min="1"
+                  max={MAX_MLFQ_LEVELS}
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+              <div>
+                <label htmlFor="mlfqBoost" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Boost Interval (0 = off)</label>
+                <input
+                  id="mlfqBoost"
+                  type="number"
+                  value={mlfqConfig.boostInterval}
+                  onChange={e => onMlfqConfigChange({ ...mlfqConfig, boostInterval: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  min="0"
+                  className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                />
+              </div>
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Quantum per Queue</span>
+              <div className="flex gap-2">
+                {mlfqConfig.quanta.map((quantum, level) => (
+                  <input
+                    key={level}
+                    type="number"
+                    value={quantum}
+                    onChange={e => handleMlfqQuantumChange(level, Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    min="1"
+                    aria-label={`Time quantum for queue Q${level + 1}`}
+                    title={`Q${level + 1}`}
+                    className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 space-y-2">
+            <label htmlFor="mlqArbitration" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Multilevel Queue Arbitration</label>
+            <select
+              id="mlqArbitration"
+              value={mlqConfig.arbitration}
+              onChange={e => onMlqConfigChange({ ...mlqConfig, arbitration: e.target.value as MultilevelQueueConfig['arbitration'] })}
+              className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+            >
+              <option value="fixed-priority">Fixed priority (system &gt; interactive &gt; batch)</option>
+              <option value="time-slice">Time slice (rotate between queues)</option>
+            </select>
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr>
+                  <th className="p-1 font-semibold text-slate-600 dark:text-slate-300">Queue</th>
+                  <th className="p-1 font-semibold text-slate-600 dark:text-slate-300">Algorithm</th>
+                  <th className="p-1 font-semibold text-slate-600 dark:text-slate-300">Quantum</th>
+                  <th className="p-1 font-semibold text-slate-600 dark:text-slate-300">Slice</th>
+                </tr>
+              </thead>
+              <tbody>
+                {QUEUE_CLASSES.map(c => {
+                  const queue = mlqConfig.queues[c];
+                  return (
+                    <tr key={c}>
+                      <td className="p-1 text-slate-700 dark:text-slate-200">{c}</td>
+                      <td className="p-1">
+                        <select
+                          value={queue.algorithm}
+                          onChange={e => handleMlqQueueChange(c, { algorithm: e.target.value as QueueAlgorithm })}
+                          aria-label={`Algorithm for the ${c} queue`}
+                          className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                        >
+                          {QUEUE_ALGORITHMS.map(a => <option key={a} value={a}>{a}</option>)}
+                        </select>
+                      </td>
+                      <td className="p-1">
+                        <input
+                          type="number"
+                          value={queue.timeQuantum}
+                          onChange={e => handleMlqQueueChange(c, { timeQuantum: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                          min="1"
+                          disabled={queue.algorithm !== 'RR'}
+                          aria-label={`Time quantum for the ${c} queue`}
+                          className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                        />
+                      </td>
+                      <td className="p-1">
+                        <input
+                          type="number"
+                          value={queue.timeSlice}
+                          onChange={e => handleMlqQueueChange(c, { timeSlice: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                          min="1"
+                          disabled={mlqConfig.arbitration !== 'time-slice'}
+                          aria-label={`Time slice for the ${c} queue`}
+                          className="w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
           </div>
         </div>
       
         <div className="space-y-4 pt-6 border-t border-slate-200 dark:border-slate-700">
              <h3 className="text-lg font-semibold text-center text-slate-700 dark:text-slate-200">Run Live Simulation</h3>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
                 <Tooltip content={FCFS_DESC} position="left">
                     <button onClick={onSimulateFCFS} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">FCFS</button>
                 </Tooltip>
                 <Tooltip content={SJF_DESC} position="right">
                     <button onClick={onSimulateSJF} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">SJF (NP)</button>
                 </Tooltip>
-                <Tooltip content={SRTF_DESC} position="left">
+                <Tooltip content={HRRN_DESC} position="left">
+                    <button onClick={onSimulateHRRN} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">HRRN</button>
+                </Tooltip>
+                <Tooltip content={SRTF_DESC} position="right">
                     <button onClick={onSimulateSRTF} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">SRTF (P)</button>
                 </Tooltip>
-                <Tooltip content={PRIORITY_NP_DESC} position="right">
+                <Tooltip content={PREDICTED_SJF_DESC} position="left">
+                    <button onClick={onSimulatePredictedSJF} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">SJF (Pred.)</button>
+                </Tooltip>
+                <Tooltip content={PREDICTED_SRTF_DESC} position="right">
+                    <button onClick={onSimulatePredictedSRTF} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">SRTF (Pred.)</button>
+                </Tooltip>
+                <Tooltip content={LJF_DESC} position="left">
+                    <button onClick={onSimulateLJF} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">LJF (NP)</button>
+                </Tooltip>
+                <Tooltip content={LRTF_DESC} position="right">
+                    <button onClick={onSimulateLRTF} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">LRTF (P)</button>
+                </Tooltip>
+                <Tooltip content={PRIORITY_NP_DESC} position="left">
                     <button onClick={onSimulatePriorityNP} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Priority (NP)</button>
                 </Tooltip>
-                <Tooltip content={PRIORITY_P_DESC} position="left">
+                <Tooltip content={PRIORITY_P_DESC} position="right">
                     <button onClick={onSimulatePriorityP} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Priority (P)</button>
                 </Tooltip>
-                <Tooltip content={RR_DESC} position="right">
+                <Tooltip content={RR_DESC} position="left">
                     <button onClick={onSimulateRR} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Round Robin</button>
                 </Tooltip>
+                <Tooltip content={MLFQ_DESC} position="right">
+                    <button onClick={onSimulateMLFQ} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">MLFQ</button>
+                </Tooltip>
+                <Tooltip content={MLQ_DESC} position="left">
+                    <button onClick={onSimulateMLQ} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Multilevel Queue</button>
+                </Tooltip>
+                <Tooltip content={LOTTERY_DESC} position="right">
+                    <button onClick={onSimulateLottery} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Lottery</button>
+                </Tooltip>
+                <Tooltip content={STRIDE_DESC} position="left">
+                    <button onClick={onSimulateStride} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Stride</button>
+                </Tooltip>
+                <Tooltip content={CFS_DESC} position="right">
+                    <button onClick={onSimulateCFS} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">CFS</button>
+                </Tooltip>
+                <Tooltip content={FAIR_SHARE_DESC} position="left">
+                    <button onClick={onSimulateFairShare} disabled={isSimulating || processes.length === 0} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Fair-Share</button>
+                </Tooltip>
             </div>
              <div className="mt-4 space-y-4">
                 <button onClick={onCompareAll} disabled={isSimulating || processes.length === 0} className="w-full bg-indigo-600 hover:bg-indigo-700 dark:hover:bg-indigo-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95"> {isSimulating && <SimulatingSpinner/>} Compare All</button>
+                <Tooltip content={SWEEP_DESC} position="center">
+                    <button onClick={onRunSweep} disabled={isSimulating || processes.length === 0} className="w-full bg-indigo-600 hover:bg-indigo-700 dark:hover:bg-indigo-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">RR Quantum Sweep</button>
+                </Tooltip>
                 <button onClick={onReset} disabled={isSimulating} className="w-full bg-rose-600 hover:bg-rose-700 dark:hover:bg-rose-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 active:scale-95">Reset All</button>
              </div>
         </div>
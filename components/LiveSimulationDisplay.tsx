@@ -3,6 +3,11 @@ import { motion, AnimatePresence } from 'framer-motion';
 import type { Process, GanttEntry, ProcessState } from '../types';
 import { LiveSimulationState } from '../App';
 import GanttChart from './GanttChart';
+import { niceToWeight, SERIES_COLORS } from '../constants';
+import { buildDeadlineMarkers } from '../services/realTime';
+import { currentCpuBurst } from '../services/bursts';
+import MetricLines from './MetricLines';
+import TimelineCharts from './TimelineCharts';
 
 interface ResultsTableProps {
   processes: Process[];
@@ -19,10 +24,12 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ processes }) => (
           <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">CT</th>
           <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">TAT</th>
           <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">WT</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300" title="Response time: first run minus arrival">RT</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300" title="Normalized turnaround: TAT / BT">NTAT</th>
         </tr>
       </thead>
       <tbody>
-        {processes.sort((a,b) => a.id - b.id).map(p => (
+        {[...processes].sort((a, b) => a.id - b.id).map(p => (
           <tr key={p.id} className="border-b border-slate-200 dark:border-slate-700">
             <td className={`p-2 font-bold ${p.color.replace('bg-', 'text-')}`}>{p.name}</td>
             <td className="p-2">{p.arrivalTime}</td>
@@ -30,6 +37,8 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ processes }) => (
             <td className="p-2">{p.completionTime}</td>
             <td className="p-2">{p.turnaroundTime}</td>
             <td className="p-2">{p.waitingTime}</td>
+            <td className="p-2">{p.responseTime ?? '-'}</td>
+            <td className="p-2">{p.normalizedTurnaround !== undefined ? p.normalizedTurnaround.toFixed(2) : '-'}</td>
           </tr>
         ))}
       </tbody>
@@ -40,6 +49,7 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ processes }) => (
 const stateStyles: Record<ProcessState, string> = {
     'running': 'bg-pink-200 text-pink-800 border-pink-300 dark:bg-pink-900/50 dark:text-pink-300 dark:border-pink-700',
     'waiting': 'bg-slate-200 text-slate-800 border-slate-300 dark:bg-slate-600 dark:text-slate-100 dark:border-slate-500',
+    'blocked': 'bg-amber-100 text-amber-800 border-amber-300 dark:bg-amber-900/40 dark:text-amber-300 dark:border-amber-700',
     'completed': 'bg-fuchsia-200 text-fuchsia-800 border-fuchsia-300 dark:bg-fuchsia-900/50 dark:text-fuchsia-300 dark:border-fuchsia-700',
     'not arrived': 'bg-white text-slate-400 border-slate-200 dark:bg-slate-700/50 dark:text-slate-400 dark:border-slate-600',
 };
@@ -56,18 +66,49 @@ const ProgressBar: React.FC<{ progress: number; color: string }> = ({ progress,
     </div>
 );
 
-const ProcessQueueTable: React.FC<{ processes: Process[], runningProcessName: string | null }> = ({ processes, runningProcessName }) => (
+// The burst sequence with the current burst highlighted and showing what is left of it.
+const BurstSequence: React.FC<{ process: Process }> = ({ process }) => {
+    if (!process.bursts) return <>CPU {process.burstTime}</>;
+    const current = process.state === 'completed' ? -1 : process.burstIndex;
+    return (
+        <>
+            {process.bursts.map((burst, i) => (
+                <span key={i} className={i === current ? 'font-bold text-fuchsia-700 dark:text-fuchsia-400' : 'text-slate-400 dark:text-slate-500'}>
+                    {i > 0 && ', '}
+                    {burst.kind === 'cpu' ? 'CPU' : 'IO'} {i === current ? `${process.burstRemaining}/${burst.duration}` : burst.duration}
+                </span>
+            ))}
+        </>
+    );
+};
+
+const ProcessQueueTable: React.FC<{ processes: Process[], runningProcessName: string | null }> = ({ processes, runningProcessName }) => {
+    const showEffectivePriority = processes.some(p => p.effectivePriority !== undefined);
+    const showVruntime = processes.some(p => p.vruntime !== undefined);
+    const showPrediction = processes.some(p => p.predictedBurst !== undefined);
+    const showDeadline = processes.some(p => p.deadline !== undefined);
+    const showBursts = processes.some(p => p.bursts !== undefined);
+    const headers = [
+        'Process', 'Arrival', 'Burst', 'Priority',
+        ...(showDeadline ? ['Deadline'] : []),
+        ...(showBursts ? ['Bursts'] : []),
+        ...(showEffectivePriority ? ['Eff. Priority'] : []),
+        ...(showVruntime ? ['Weight', 'vruntime'] : []),
+        ...(showPrediction ? ['Predicted τ', 'Actual Burst'] : []),
+        'Remaining', 'State', 'Progress',
+    ];
+    return (
     <div className="mt-4 overflow-x-auto">
         <table className="w-full text-sm text-left">
             <thead className="border-b-2 border-slate-200 dark:border-slate-700">
                 <tr>
-                    {['Process', 'Arrival', 'Burst', 'Priority', 'Remaining', 'State', 'Progress'].map(header => (
+                    {headers.map(header => (
                          <th key={header} className="p-3 font-semibold text-fuchsia-800 dark:text-fuchsia-400 tracking-wider">{header}</th>
                     ))}
                 </tr>
             </thead>
             <tbody>
-                {processes.sort((a,b) => a.id - b.id).map(p => {
+                {[...processes].sort((a, b) => a.id - b.id).map(p => {
                     const progress = p.burstTime > 0 ? ((p.burstTime - p.remainingTime) / p.burstTime) * 100 : 100;
                     return (
                         <tr key={p.id} className={`border-b border-slate-200 dark:border-slate-700 transition-colors duration-300 ${p.name === runningProcessName ? 'bg-pink-50 dark:bg-pink-900/20' : ''}`}>
@@ -75,6 +116,23 @@ const ProcessQueueTable: React.FC<{ processes: Process[], runningProcessName: st
                             <td className="p-3">{p.arrivalTime}</td>
                             <td className="p-3">{p.burstTime}</td>
                             <td className="p-3">{p.priority ?? 'N/A'}</td>
+                            {showDeadline && <td className="p-3">{p.deadline ?? '-'}</td>}
+                            {showBursts && <td className="p-3 whitespace-nowrap"><BurstSequence process={p} /></td>}
+                            {showEffectivePriority && (
+                                <td className={`p-3 ${p.effectivePriority !== undefined && p.effectivePriority !== p.priority ? 'font-bold text-fuchsia-700 dark:text-fuchsia-400' : ''}`}>{p.effectivePriority ?? p.priority ?? 'N/A'}</td>
+                            )}
+                            {showVruntime && (
+                                <>
+                                    <td className="p-3">{niceToWeight(p.nice)}</td>
+                                    <td className="p-3">{p.vruntime !== undefined ? p.vruntime.toFixed(2) : '-'}</td>
+                                </>
+                            )}
+                            {showPrediction && (
+                                <>
+                                    <td className="p-3">{p.predictedBurst !== undefined ? p.predictedBurst.toFixed(2) : '-'}</td>
+                                    <td className="p-3">{currentCpuBurst(p)}</td>
+                                </>
+                            )}
                             <td className="p-3">{p.remainingTime}</td>
                             <td className="p-3"><StateBadge state={p.state} /></td>
                             <td className="p-3"><ProgressBar progress={progress} color={p.color} /></td>
@@ -84,7 +142,8 @@ const ProcessQueueTable: React.FC<{ processes: Process[], runningProcessName: st
             </tbody>
         </table>
     </div>
-);
+    );
+};
 
 
 const SchedulerLog: React.FC<{ log: string[] }> = ({ log }) => {
@@ -144,7 +203,7 @@ interface LiveSimulationDisplayProps {
 }
 
 const LiveSimulationDisplay: React.FC<LiveSimulationDisplayProps> = ({ state, isSimulating, isPaused, onPause, onResume, onStop }) => {
-  const { algorithmName, time, runningProcessName, readyQueue, ganttChart, processes, eventLog } = state;
+  const { algorithmName, time, runningProcessName, cores, switching, readyQueue, readyQueues, ioQueue, ganttChart, processes, eventLog, timeline, result } = state;
   const runningProcess = processes.find(p => p.name === runningProcessName);
 
   // **FIXED**: Calculate averages based on all processes once simulation is complete, not just 'completed' ones.
@@ -153,6 +212,13 @@ const LiveSimulationDisplay: React.FC<LiveSimulationDisplayProps> = ({ state, is
   const totalTurnaroundTime = processesForFinalCalc.reduce((acc, p) => acc + p.turnaroundTime, 0);
   const avgWaitingTime = processesForFinalCalc.length > 0 ? totalWaitingTime / processesForFinalCalc.length : 0;
   const avgTurnaroundTime = processesForFinalCalc.length > 0 ? totalTurnaroundTime / processesForFinalCalc.length : 0;
+  const elapsed = Math.max(1, ...processes.map(p => p.completionTime));
+  const work = ganttChart.filter(entry => entry.kind !== 'switch');
+  const busyTime = work.reduce((acc, entry) => acc + entry.end - entry.start, 0);
+  const switchTime = ganttChart.reduce((acc, entry) => acc + (entry.kind === 'switch' ? entry.end - entry.start : 0), 0);
+  const coreUtilization = cores?.map((_, core) => work
+    .filter(entry => entry.core === core)
+    .reduce((acc, entry) => acc + entry.end - entry.start, 0) / elapsed);
 
   return (
     <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md">
@@ -183,7 +249,7 @@ const LiveSimulationDisplay: React.FC<LiveSimulationDisplayProps> = ({ state, is
       </div>
       
       {/* Status Panel */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-center my-6">
+      <div className={`grid grid-cols-1 ${ioQueue ? 'sm:grid-cols-4' : 'sm:grid-cols-3'} gap-4 text-center my-6`}>
         <div className="bg-slate-100 dark:bg-slate-700/50 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
           <p className="text-sm text-slate-500 dark:text-slate-400">Current Time</p>
           <p className="text-2xl font-bold text-slate-800 dark:text-slate-200 h-8 flex items-center justify-center">
@@ -191,17 +257,50 @@ const LiveSimulationDisplay: React.FC<LiveSimulationDisplayProps> = ({ state, is
           </p>
         </div>
         <div className="bg-slate-100 dark:bg-slate-700/50 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
-          <p className="text-sm text-slate-500 dark:text-slate-400">CPU</p>
+          <p className="text-sm text-slate-500 dark:text-slate-400">{cores ? 'CPUs' : 'CPU'}</p>
+          {cores ? (
+            <div className="pt-1 space-y-0.5 text-left">
+              {cores.map((name, core) => {
+                const process = processes.find(p => p.name === name);
+                return (
+                  <p key={core} className="text-sm truncate text-slate-800 dark:text-slate-200">
+                    <span className="font-semibold text-slate-500 dark:text-slate-400">CPU {core + 1}:</span>{' '}
+                    <span className={`font-bold ${process ? process.color.replace('bg-', 'text-') : ''}`}>{process ? `${switching?.[core] ? '⇄ ' : ''}${process.name}` : 'Idle'}</span>
+                  </p>
+                );
+              })}
+            </div>
+          ) : (
            <div className="text-2xl font-bold h-8 flex items-center justify-center">
-            <AnimatedText text={runningProcess ? runningProcess.name : 'Idle'} className={runningProcess ? runningProcess.color.replace('bg-', 'text-') : 'text-slate-800 dark:text-slate-200'} />
+            <AnimatedText text={runningProcess ? `${switching?.[0] ? '⇄ ' : ''}${runningProcess.name}` : 'Idle'} className={runningProcess ? runningProcess.color.replace('bg-', 'text-') : 'text-slate-800 dark:text-slate-200'} />
            </div>
+          )}
         </div>
         <div className="bg-slate-100 dark:bg-slate-700/50 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
-          <p className="text-sm text-slate-500 dark:text-slate-400">Ready Queue</p>
-          <p className="text-xl font-bold truncate h-8 pt-1 text-slate-800 dark:text-slate-200">
-            {readyQueue.length > 0 ? readyQueue.map(p => p.name).join(', ') : 'Empty'}
-          </p>
+          <p className="text-sm text-slate-500 dark:text-slate-400">{readyQueues ? 'Ready Queues' : 'Ready Queue'}</p>
+          {readyQueues ? (
+            <div className="pt-1 space-y-0.5 text-left">
+              {readyQueues.map(group => (
+                <p key={group.label} className="text-sm truncate text-slate-800 dark:text-slate-200">
+                  <span className="font-semibold text-slate-500 dark:text-slate-400">{group.label}:</span>{' '}
+                  <span className="font-bold">{group.processes.length > 0 ? group.processes.map(p => p.name).join(', ') : 'Empty'}</span>
+                </p>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xl font-bold truncate h-8 pt-1 text-slate-800 dark:text-slate-200">
+              {readyQueue.length > 0 ? readyQueue.map(p => p.name).join(', ') : 'Empty'}
+            </p>
+          )}
         </div>
+        {ioQueue && (
+          <div className="bg-slate-100 dark:bg-slate-700/50 p-4 rounded-lg border border-slate-200 dark:border-slate-700">
+            <p className="text-sm text-slate-500 dark:text-slate-400">I/O Queue</p>
+            <p className="text-xl font-bold truncate h-8 pt-1 text-amber-700 dark:text-amber-400" title="The first process is being served by the I/O device">
+              {ioQueue.length > 0 ? ioQueue.map(p => p.name).join(', ') : 'Empty'}
+            </p>
+          </div>
+        )}
       </div>
 
       <div>
@@ -210,7 +309,9 @@ const LiveSimulationDisplay: React.FC<LiveSimulationDisplayProps> = ({ state, is
         <ProcessQueueTable processes={processes} runningProcessName={runningProcessName} />
       </div>
 
-      <GanttChart chartData={ganttChart} totalTime={time} />
+      <GanttChart chartData={ganttChart} totalTime={time} markers={buildDeadlineMarkers(processes, time)} cores={cores?.length} />
+
+      <TimelineCharts series={[{ name: algorithmName, color: SERIES_COLORS[0], timeline, cores: cores?.length ?? 1 }]} />
       
       {eventLog && eventLog.length > 0 && <SchedulerLog log={eventLog} />}
 
@@ -220,10 +321,32 @@ const LiveSimulationDisplay: React.FC<LiveSimulationDisplayProps> = ({ state, is
             <ResultsTable processes={processes} />
             <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700 text-center">
                 <div className="inline-grid grid-cols-[auto_auto] gap-x-4 gap-y-1">
-                    <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Avg. Waiting Time:</span>
-                    <span className="text-left">{avgWaitingTime.toFixed(2)}</span>
-                    <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Avg. Turnaround Time:</span>
-                    <span className="text-left">{avgTurnaroundTime.toFixed(2)}</span>
+                    {result ? <MetricLines result={result} /> : (
+                        <>
+                            <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Avg. Waiting Time:</span>
+                            <span className="text-left">{avgWaitingTime.toFixed(2)}</span>
+                            <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Avg. Turnaround Time:</span>
+                            <span className="text-left">{avgTurnaroundTime.toFixed(2)}</span>
+                        </>
+                    )}
+                    {ioQueue && !result && (
+                        <>
+                            <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">CPU Utilization:</span>
+                            <span className="text-left">{(busyTime / (elapsed * (cores?.length ?? 1)) * 100).toFixed(1)}%</span>
+                        </>
+                    )}
+                    {switching && (
+                        <>
+                            <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Switch Overhead:</span>
+                            <span className="text-left">{switchTime} units, {(busyTime / Math.max(1, busyTime + switchTime) * 100).toFixed(1)}% efficiency</span>
+                        </>
+                    )}
+                    {coreUtilization && (
+                        <>
+                            <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Core Utilization:</span>
+                            <span className="text-left">{coreUtilization.map((u, core) => `CPU ${core + 1} ${(u * 100).toFixed(0)}%`).join(', ')}</span>
+                        </>
+                    )}
                 </div>
             </div>
         </div>
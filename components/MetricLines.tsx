@@ -0,0 +1,17 @@
+import React from 'react';
+import type { AlgorithmResult, ResultMetric } from '../types';
+import { RESULT_METRICS } from '../constants';
+
+// The schedule-level metrics, one label and value per line.
+const MetricLines: React.FC<{ result: AlgorithmResult }> = ({ result }) => (
+  <>
+    {(Object.keys(RESULT_METRICS) as ResultMetric[]).map(metric => (
+      <React.Fragment key={metric}>
+        <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">{RESULT_METRICS[metric].label}:</span>
+        <span className="text-left">{RESULT_METRICS[metric].format(result[metric])}</span>
+      </React.Fragment>
+    ))}
+  </>
+);
+
+export default MetricLines;
@@ -1,12 +1,20 @@
-import React from 'react';
-import type { AlgorithmResult, Process } from '../types';
+import React, { useState } from 'react';
+import type { AlgorithmResult, DistributionStats, FairnessReport, GroupReport, Process, ProcessShare, RealTimeReport, ResultMetric } from '../types';
+import { buildDeadlineMarkers } from '../services/realTime';
+import { RESULT_METRICS, SERIES_COLORS, TIE_BREAK_LABELS } from '../constants';
 import GanttChart from './GanttChart';
+import MetricLines from './MetricLines';
+import ComparisonDashboard from './ComparisonDashboard';
+import TimelineCharts from './TimelineCharts';
+import AlignedGanttView from './AlignedGanttView';
 
 interface ResultsTableProps {
   processes: Process[];
 }
 
-const ResultsTable: React.FC<ResultsTableProps> = ({ processes }) => (
+const ResultsTable: React.FC<ResultsTableProps> = ({ processes }) => {
+  const showDeadlines = processes.some(p => p.deadline !== undefined);
+  return (
   <div className="mt-4 overflow-x-auto">
     <table className="w-full text-sm text-left">
       <thead className="bg-slate-100 dark:bg-slate-700/50 border-b-2 border-slate-300 dark:border-slate-600">
@@ -18,10 +26,18 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ processes }) => (
           <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">CT</th>
           <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">TAT</th>
           <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">WT</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300" title="Response time: first run minus arrival">RT</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300" title="Normalized turnaround: TAT / BT">NTAT</th>
+          {showDeadlines && (
+            <>
+              <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Deadline</th>
+              <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Lateness</th>
+            </>
+          )}
         </tr>
       </thead>
       <tbody>
-        {processes.sort((a,b) => a.id - b.id).map(p => (
+        {[...processes].sort((a, b) => a.id - b.id).map(p => (
           <tr key={p.id} className="border-b border-slate-200 dark:border-slate-700">
             <td className={`p-2 font-bold ${p.color.replace('bg-', 'text-')}`}>{p.name}</td>
             <td className="p-2">{p.arrivalTime}</td>
@@ -30,6 +46,71 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ processes }) => (
             <td className="p-2">{p.completionTime}</td>
             <td className="p-2">{p.turnaroundTime}</td>
             <td className="p-2">{p.waitingTime}</td>
+            <td className="p-2">{p.responseTime ?? '-'}</td>
+            <td className="p-2">{p.normalizedTurnaround !== undefined ? p.normalizedTurnaround.toFixed(2) : '-'}</td>
+            {showDeadlines && p.deadline !== undefined && (
+              <>
+                <td className="p-2">{p.deadline}</td>
+                <td className={`p-2 ${p.completionTime > p.deadline ? 'font-bold text-red-600 dark:text-red-400' : ''}`}>{p.completionTime - p.deadline}</td>
+              </>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+  );
+};
+
+const formatShare = (share: number): string => `${(share * 100).toFixed(1)}%`;
+
+const SharesTable: React.FC<{ shares: ProcessShare[] }> = ({ shares }) => (
+  <div className="mt-4 overflow-x-auto">
+    <h4 className="text-lg font-semibold mb-2 text-slate-700 dark:text-slate-300">CPU Share While Runnable</h4>
+    <table className="w-full text-sm text-left">
+      <thead className="bg-slate-100 dark:bg-slate-700/50 border-b-2 border-slate-300 dark:border-slate-600">
+        <tr>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">ID</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Entitled Share</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Actual Share</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Difference</th>
+        </tr>
+      </thead>
+      <tbody>
+        {shares.map(share => (
+          <tr key={share.processName} className="border-b border-slate-200 dark:border-slate-700">
+            <td className="p-2 font-bold">{share.processName}</td>
+            <td className="p-2">{formatShare(share.entitledShare)}</td>
+            <td className="p-2">{formatShare(share.actualShare)}</td>
+            <td className="p-2">{(share.actualShare - share.entitledShare >= 0 ? '+' : '') + formatShare(share.actualShare - share.entitledShare)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const GroupsTable: React.FC<{ groups: GroupReport[] }> = ({ groups }) => (
+  <div className="mt-4 overflow-x-auto">
+    <h4 className="text-lg font-semibold mb-2 text-slate-700 dark:text-slate-300">Per-Group Results</h4>
+    <table className="w-full text-sm text-left">
+      <thead className="bg-slate-100 dark:bg-slate-700/50 border-b-2 border-slate-300 dark:border-slate-600">
+        <tr>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Group</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Processes</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">CPU Share While Runnable</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Avg. WT</th>
+          <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Avg. TAT</th>
+        </tr>
+      </thead>
+      <tbody>
+        {groups.map(group => (
+          <tr key={group.group} className="border-b border-slate-200 dark:border-slate-700">
+            <td className="p-2 font-bold">{group.group}</td>
+            <td className="p-2">{group.processCount}</td>
+            <td className="p-2">{formatShare(group.cpuShare)}</td>
+            <td className="p-2">{group.avgWaitingTime.toFixed(2)}</td>
+            <td className="p-2">{group.avgTurnaroundTime.toFixed(2)}</td>
           </tr>
         ))}
       </tbody>
@@ -37,34 +118,219 @@ const ResultsTable: React.FC<ResultsTableProps> = ({ processes }) => (
   </div>
 );
 
+const verdictStyles: Record<RealTimeReport['verdict'], string> = {
+  'schedulable': 'text-emerald-600 dark:text-emerald-400',
+  'not schedulable': 'text-red-600 dark:text-red-400',
+  'inconclusive': 'text-amber-600 dark:text-amber-400',
+};
+
+const RealTimeSummary: React.FC<{ report: RealTimeReport }> = ({ report }) => (
+  <div className="mt-4 p-4 bg-slate-100 dark:bg-slate-700/50 rounded-lg border border-slate-200 dark:border-slate-700 text-center">
+    <div className="inline-grid grid-cols-[auto_auto] gap-x-4 gap-y-1">
+      <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Horizon:</span>
+      <span className="text-left">{report.horizon}</span>
+      <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Utilization / Bound:</span>
+      <span className="text-left">{report.utilization.toFixed(3)} / {report.utilizationBound.toFixed(3)}</span>
+      <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Schedulability Test:</span>
+      <span className={`text-left font-bold ${verdictStyles[report.verdict]}`}>{report.verdict}</span>
+      <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Deadline Misses:</span>
+      <span className={`text-left ${report.deadlineMisses > 0 ? 'font-bold text-red-600 dark:text-red-400' : ''}`}>{report.deadlineMisses}</span>
+      <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Max Lateness:</span>
+      <span className="text-left">{report.maxLateness}</span>
+    </div>
+  </div>
+);
+
+const DistributionRow: React.FC<{ label: string, stats: DistributionStats }> = ({ label, stats }) => (
+  <tr className="border-b border-slate-200 dark:border-slate-700">
+    <td className="p-2 font-bold">{label}</td>
+    <td className="p-2">{stats.mean.toFixed(2)}</td>
+    <td className="p-2">{stats.variance.toFixed(2)}</td>
+    <td className="p-2">{stats.stdDev.toFixed(2)}</td>
+    <td className="p-2">{stats.median.toFixed(2)}</td>
+    <td className="p-2">{stats.p95.toFixed(2)}</td>
+  </tr>
+);
+
+// One bar per process, scaled to the longest wait, so a starved process stands out.
+const WaitingTimeHistogram: React.FC<{ processes: Process[] }> = ({ processes }) => {
+  const longest = Math.max(...processes.map(p => p.waitingTime), 0);
+  return (
+    <div className="mt-4">
+      <h5 className="text-sm font-semibold mb-2 text-slate-600 dark:text-slate-300">Waiting Time per Process</h5>
+      <div className="space-y-1">
+        {[...processes].sort((a, b) => a.id - b.id).map(p => (
+          <div key={p.id} className="flex items-center gap-2 text-xs">
+            <span className={`w-10 font-bold truncate ${p.color.replace('bg-', 'text-')}`}>{p.name}</span>
+            <div className="flex-grow bg-slate-200 dark:bg-slate-700 rounded h-3">
+              <div className={`${p.color} h-3 rounded`} style={{ width: `${longest > 0 ? (p.waitingTime / longest) * 100 : 0}%` }}></div>
+            </div>
+            <span className="w-10 text-right">{p.waitingTime}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const StatsPanel: React.FC<{ fairness: FairnessReport, processes: Process[] }> = ({ fairness, processes }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div className="mt-4">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="text-sm font-semibold text-fuchsia-700 dark:text-fuchsia-400 hover:underline"
+      >
+        {isOpen ? '▾' : '▸'} Distribution & Fairness (Jain's index {fairness.jainIndex.toFixed(3)})
+      </button>
+      {isOpen && (
+        <div className="mt-2 p-4 bg-slate-100 dark:bg-slate-700/50 rounded-lg border border-slate-200 dark:border-slate-700">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="border-b-2 border-slate-300 dark:border-slate-600">
+                <tr>
+                  {['', 'Mean', 'Variance', 'Std. Dev.', 'Median', 'p95'].map(header => (
+                    <th key={header} className="p-2 font-semibold text-slate-600 dark:text-slate-300">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                <DistributionRow label="WT" stats={fairness.waitingTime} />
+                <DistributionRow label="TAT" stats={fairness.turnaroundTime} />
+              </tbody>
+            </table>
+          </div>
+          <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+            Jain's fairness index over normalized turnaround: 1 when every process is slowed down equally, 1/n when one process bears all the delay.
+          </p>
+          <WaitingTimeHistogram processes={processes} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// The fairest and least fair of the successful runs by Jain's index, when they differ.
+const fairnessExtremes = (results: AlgorithmResult[]): { fairest?: AlgorithmResult, leastFair?: AlgorithmResult } => {
+  const ranked = results.filter(r => !r.error && r.processes.length > 0);
+  if (ranked.length < 2) return {};
+  const fairest = ranked.reduce((best, r) => r.fairness.jainIndex > best.fairness.jainIndex ? r : best);
+  const leastFair = ranked.reduce((worst, r) => r.fairness.jainIndex < worst.fairness.jainIndex ? r : worst);
+  return fairest.fairness.jainIndex > leastFair.fairness.jainIndex ? { fairest, leastFair } : {};
+};
+
+// Best first on the chosen metric; failed runs go last.
+const sortResults = (results: AlgorithmResult[], metric: ResultMetric): AlgorithmResult[] => {
+  const sign = RESULT_METRICS[metric].higherIsBetter ? -1 : 1;
+  return [...results].sort((a, b) => Number(Boolean(a.error)) - Number(Boolean(b.error)) || sign * (a[metric] - b[metric]));
+};
 
 interface OutputSectionProps {
   results: AlgorithmResult[];
 }
 
-const OutputSection: React.FC<OutputSectionProps> = ({ results }) => (
+const OutputSection: React.FC<OutputSectionProps> = ({ results }) => {
+  // null keeps the order the algorithms ran in.
+  const [sortMetric, setSortMetric] = useState<ResultMetric | null>(null);
+  const sorted = sortMetric ? sortResults(results, sortMetric) : results;
+  const { fairest, leastFair } = fairnessExtremes(results);
+
+  return (
   <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md">
     <h2 className="text-3xl font-bold text-center mb-4 text-fuchsia-600 dark:text-fuchsia-400">Comparison Results</h2>
+    <ComparisonDashboard results={results} />
+    <div className="mb-10">
+      <AlignedGanttView results={results} />
+    </div>
+    <div className="mb-10">
+      <TimelineCharts
+        series={results.filter(result => !result.error).map(result => ({
+          name: result.name,
+          color: SERIES_COLORS[results.indexOf(result) % SERIES_COLORS.length],
+          timeline: result.timeline,
+          cores: result.coreUtilization?.length ?? 1,
+        }))}
+      />
+    </div>
+    <div className="flex items-center justify-center gap-2 mb-6">
+      <label htmlFor="sortMetric" className="text-sm font-medium text-slate-600 dark:text-slate-300">Sort by</label>
+      <select
+        id="sortMetric"
+        value={sortMetric ?? ''}
+        onChange={e => setSortMetric(e.target.value === '' ? null : e.target.value as ResultMetric)}
+        className="bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-1 px-2 text-sm text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none"
+      >
+        <option value="">Run order</option>
+        {(Object.keys(RESULT_METRICS) as ResultMetric[]).map(metric => (
+          <option key={metric} value={metric}>{RESULT_METRICS[metric].label} ({RESULT_METRICS[metric].higherIsBetter ? 'highest' : 'lowest'} first)</option>
+        ))}
+      </select>
+    </div>
     <div className="space-y-10">
-      {results.map(result => (
-        <div key={result.name}>
-          <h3 className="text-2xl font-bold mb-2 text-slate-800 dark:text-slate-200">{result.name}</h3>
-          <GanttChart chartData={result.ganttChart} totalTime={result.totalTime} />
+      {sorted.map(result => (
+        <div key={results.indexOf(result)}>
+          <h3 className="text-2xl font-bold mb-2 text-slate-800 dark:text-slate-200">
+            {result.name}
+            {result === fairest && <span className="ml-3 align-middle text-xs font-semibold py-1 px-2 rounded-full bg-emerald-100 text-emerald-800 dark:bg-emerald-900/50 dark:text-emerald-300">Fairest</span>}
+            {result === leastFair && <span className="ml-3 align-middle text-xs font-semibold py-1 px-2 rounded-full bg-rose-100 text-rose-800 dark:bg-rose-900/50 dark:text-rose-300">Least Fair</span>}
+          </h3>
+          {result.error && <p className="mt-2 text-sm font-semibold text-red-600 dark:text-red-400">{result.error}</p>}
+          <GanttChart chartData={result.ganttChart} totalTime={result.totalTime} markers={buildDeadlineMarkers(result.processes)} cores={result.coreUtilization?.length} />
+          {result.realTime && <RealTimeSummary report={result.realTime} />}
           <div className="mt-6 flex-grow">
             <ResultsTable processes={result.processes} />
+            {result.shares && <SharesTable shares={result.shares} />}
+            {result.groups && <GroupsTable groups={result.groups} />}
+            {!result.error && <StatsPanel fairness={result.fairness} processes={result.processes} />}
           </div>
           <div className="mt-4 pt-4 border-t border-slate-200 dark:border-slate-700 text-center">
             <div className="inline-grid grid-cols-[auto_auto] gap-x-4 gap-y-1">
-              <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Avg. Waiting Time:</span>
-              <span className="text-left">{result.avgWaitingTime.toFixed(2)}</span>
-              <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Avg. Turnaround Time:</span>
-              <span className="text-left">{result.avgTurnaroundTime.toFixed(2)}</span>
+              <MetricLines result={result} />
+              {result.io && (
+                <>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">I/O Device Utilization:</span>
+                  <span className="text-left">{(result.io.ioUtilization * 100).toFixed(1)}%</span>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">CPU / I/O Overlap:</span>
+                  <span className="text-left">{result.io.overlapTime} time units</span>
+                </>
+              )}
+              {result.tieBreak && (
+                <>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Ties Broken By:</span>
+                  <span className="text-left">{TIE_BREAK_LABELS[result.tieBreak]}</span>
+                </>
+              )}
+              {result.prediction && (
+                <>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Prediction Error (MAE):</span>
+                  <span className="text-left">{result.prediction.meanAbsoluteError.toFixed(2)} over {result.prediction.predictions} bursts</span>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Prediction Bias:</span>
+                  <span className="text-left">{(result.prediction.meanError >= 0 ? '+' : '') + result.prediction.meanError.toFixed(2)}</span>
+                </>
+              )}
+              {result.coreUtilization && (
+                <>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Core Utilization:</span>
+                  <span className="text-left">{result.coreUtilization.map((u, core) => `CPU ${core + 1} ${(u * 100).toFixed(0)}%`).join(', ')}</span>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Migrations:</span>
+                  <span className="text-left">{result.migrations}</span>
+                </>
+              )}
+              {result.contextSwitches && (
+                <>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">Switch Overhead:</span>
+                  <span className="text-left">{result.contextSwitches.overhead} time units</span>
+                  <span className="font-semibold text-slate-600 dark:text-slate-300 text-right">CPU Efficiency:</span>
+                  <span className="text-left">{(result.contextSwitches.efficiency * 100).toFixed(1)}%</span>
+                </>
+              )}
             </div>
           </div>
         </div>
       ))}
     </div>
   </div>
-);
+  );
+};
 
 export default OutputSection;
\ No newline at end of file
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import type { AlgorithmResult, QuantumSweepPoint, QuantumSweepReport, ResultMetric } from '../types';
+import { RESULT_METRICS } from '../constants';
+import GanttChart from './GanttChart';
+import MetricLines from './MetricLines';
+
+interface QuantumSweepChartProps {
+  report: QuantumSweepReport;
+}
+
+const SWEEP_METRICS: ResultMetric[] = ['avgWaitingTime', 'avgTurnaroundTime', 'avgResponseTime', 'contextSwitchCount'];
+
+// Plot area inside a WIDTH × HEIGHT view box, leaving room for the axis labels.
+const WIDTH = 320;
+const HEIGHT = 200;
+const PLOT = { left: 40, right: 310, top: 10, bottom: 170 };
+
+const REFERENCES: { key: 'fcfs' | 'srtf', label: string, className: string }[] = [
+  { key: 'fcfs', label: 'FCFS', className: 'text-amber-500' },
+  { key: 'srtf', label: 'SRTF', className: 'text-emerald-500' },
+];
+
+interface MetricPlotProps {
+  metric: ResultMetric;
+  points: QuantumSweepPoint[];
+  references: Record<'fcfs' | 'srtf', AlgorithmResult>;
+  selected: number | null;
+  onSelect: (index: number) => void;
+}
+
+const MetricPlot: React.FC<MetricPlotProps> = ({ metric, points, references, selected, onSelect }) => {
+  const values = points.map(point => point.result[metric]);
+  const maxValue = Math.max(...values, references.fcfs[metric], references.srtf[metric]) || 1;
+  const first = points[0].quantum;
+  const last = points[points.length - 1].quantum;
+  const x = (quantum: number) => last > first
+    ? PLOT.left + ((quantum - first) / (last - first)) * (PLOT.right - PLOT.left)
+    : (PLOT.left + PLOT.right) / 2;
+  const y = (value: number) => PLOT.bottom - (value / (maxValue * 1.1)) * (PLOT.bottom - PLOT.top);
+  // At most about ten quantum labels, so they never overlap.
+  const labelEvery = Math.ceil(points.length / 10);
+
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-center text-slate-700 dark:text-slate-300">{RESULT_METRICS[metric].label}</h4>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full text-slate-400 dark:text-slate-500">
+        <line x1={PLOT.left} y1={PLOT.bottom} x2={PLOT.right} y2={PLOT.bottom} stroke="currentColor" />
+        <line x1={PLOT.left} y1={PLOT.top} x2={PLOT.left} y2={PLOT.bottom} stroke="currentColor" />
+        {[0, maxValue / 2, maxValue].map(value => (
+          <text key={value} x={PLOT.left - 4} y={y(value) + 3} textAnchor="end" fontSize="9" fill="currentColor">{Number(value.toFixed(1))}</text>
+        ))}
+        {points.map((point, i) => i % labelEvery === 0 && (
+          <text key={point.quantum} x={x(point.quantum)} y={PLOT.bottom + 12} textAnchor="middle" fontSize="9" fill="currentColor">{point.quantum}</text>
+        ))}
+        <text x={(PLOT.left + PLOT.right) / 2} y={HEIGHT - 2} textAnchor="middle" fontSize="9" fill="currentColor">quantum</text>
+        {REFERENCES.map(reference => (
+          <g key={reference.key} className={reference.className}>
+            <line x1={PLOT.left} y1={y(references[reference.key][metric])} x2={PLOT.right} y2={y(references[reference.key][metric])} stroke="currentColor" strokeDasharray="4 3" />
+            <text x={PLOT.right} y={y(references[reference.key][metric]) - 3} textAnchor="end" fontSize="9" fill="currentColor">{reference.label}</text>
+          </g>
+        ))}
+        <polyline
+          points={points.map(point => `${x(point.quantum)},${y(point.result[metric])}`).join(' ')}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          className="text-fuchsia-600 dark:text-fuchsia-400"
+        />
+        {points.map((point, i) => (
+          <circle
+            key={point.quantum}
+            cx={x(point.quantum)}
+            cy={y(point.result[metric])}
+            r={i === selected ? 5 : 3.5}
+            onClick={() => onSelect(i)}
+            className={`cursor-pointer ${i === selected ? 'fill-fuchsia-800 dark:fill-fuchsia-200' : 'fill-fuchsia-600 dark:fill-fuchsia-400'}`}
+          >
+            <title>q = {point.quantum}: {RESULT_METRICS[metric].format(point.result[metric])}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const QuantumSweepChart: React.FC<QuantumSweepChartProps> = ({ report }) => {
+  // Index of the point whose run is shown below the plots.
+  const [selected, setSelected] = useState<number | null>(null);
+  const run = selected !== null ? report.points[selected] : null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md">
+      <h2 className="text-3xl font-bold text-center mb-2 text-fuchsia-600 dark:text-fuchsia-400">Round Robin Quantum Sweep</h2>
+      <p className="text-center text-sm text-slate-500 dark:text-slate-400 mb-4">
+        Dashed lines show FCFS and SRTF on the same processes. Click a point to see that run.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {SWEEP_METRICS.map(metric => (
+          <MetricPlot key={metric} metric={metric} points={report.points} references={report} selected={selected} onSelect={setSelected} />
+        ))}
+      </div>
+      {run && (
+        <div className="mt-8 pt-6 border-t border-slate-200 dark:border-slate-700">
+          <h3 className="text-2xl font-bold mb-2 text-slate-800 dark:text-slate-200">{run.result.name}</h3>
+          <GanttChart chartData={run.result.ganttChart} totalTime={run.result.totalTime} cores={run.result.coreUtilization?.length} />
+          <div className="mt-4 text-center">
+            <div className="inline-grid grid-cols-[auto_auto] gap-x-4 gap-y-1">
+              <MetricLines result={run.result} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuantumSweepChart;
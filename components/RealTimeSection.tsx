@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { RealTimeTask } from '../types';
+import { hyperperiodOf, MAX_HORIZON } from '../services/realTime';
+import Tooltip from './Tooltip';
+
+interface RealTimeSectionProps {
+  tasks: RealTimeTask[];
+  onAddTask: (period: number, executionTime: number, deadline: number | null) => boolean;
+  onRemoveTask: (id: number) => void;
+  horizon: number;
+  onHorizonChange: (horizon: number) => void;
+  onSimulateEDF: () => void;
+  onSimulateRM: () => void;
+  onCompare: () => void;
+  isSimulating: boolean;
+}
+
+const EDF_DESC = "Earliest Deadline First: The released job with the nearest absolute deadline runs, preempting any job due later. Meets every deadline whenever utilization is at most 1.";
+const RM_DESC = "Rate Monotonic: Fixed priorities by period, shortest period first. Guaranteed to meet deadlines below the Liu & Layland utilization bound.";
+
+const inputClassName = "w-full bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-2 px-3 text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-fuchsia-500 focus:border-fuchsia-500 outline-none";
+
+
+const RealTimeSection: React.FC<RealTimeSectionProps> = ({
+  tasks,
+  onAddTask,
+  onRemoveTask,
+  horizon,
+  onHorizonChange,
+  onSimulateEDF,
+  onSimulateRM,
+  onCompare,
+  isSimulating,
+}) => {
+  const [period, setPeriod] = useState('');
+  const [executionTime, setExecutionTime] = useState('');
+  const [deadline, setDeadline] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Number() rather than parseInt, so "2.5" reaches the integer check instead of becoming 2.
+    const t = Number(period);
+    const c = Number(executionTime);
+    const d = deadline === '' ? null : Number(deadline);
+
+    if (onAddTask(t, c, d)) {
+      setPeriod('');
+      setExecutionTime('');
+      setDeadline('');
+    }
+  };
+
+  const utilization = tasks.reduce((acc, t) => acc + t.executionTime / t.period, 0);
+  const disabled = isSimulating || tasks.length === 0;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 p-6 rounded-lg shadow-md flex flex-col gap-6 mt-8">
+      <div>
+        <h2 className="text-2xl font-bold mb-4 text-fuchsia-600 dark:text-fuchsia-400">Real-Time Tasks</h2>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="rtPeriod" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Period</label>
+              <input id="rtPeriod" type="number" value={period} onChange={e => setPeriod(e.target.value)} placeholder="e.g., 5" min="1" step="1" required className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="rtExecution" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Execution Time</label>
+              <input id="rtExecution" type="number" value={executionTime} onChange={e => setExecutionTime(e.target.value)} placeholder="e.g., 2" min="1" step="1" required className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="rtDeadline" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Deadline (Optional)</label>
+              <input id="rtDeadline" type="number" value={deadline} onChange={e => setDeadline(e.target.value)} placeholder="= period" min="1" step="1" className={inputClassName} />
+            </div>
+          </div>
+          <button
+            type="submit"
+            className="w-full bg-fuchsia-600 text-white font-semibold py-2 px-4 rounded-md hover:bg-fuchsia-700 dark:hover:bg-fuchsia-500 transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 active:scale-95"
+            disabled={isSimulating}
+          >
+            Add Task
+          </button>
+        </form>
+
+        {tasks.length > 0 && (
+          <div className="mt-6">
+            <h3 className="text-lg font-semibold text-slate-700 dark:text-slate-200 mb-2">Task List</h3>
+            <div className="overflow-x-auto border border-slate-200 dark:border-slate-700 rounded-md">
+              <table className="w-full text-sm text-left">
+                <thead className="bg-slate-50 dark:bg-slate-700/50">
+                  <tr>
+                    <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">ID</th>
+                    <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Period</th>
+                    <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Execution</th>
+                    <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Deadline</th>
+                    <th className="p-2 font-semibold text-slate-600 dark:text-slate-300">Utilization</th>
+                    <th className="p-2 font-semibold text-slate-600 dark:text-slate-300"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <AnimatePresence>
+                    {tasks.map(t => (
+                      <motion.tr
+                        key={t.id}
+                        layout
+                        initial={{ opacity: 0, y: -10 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        exit={{ opacity: 0, x: -20, transition: { duration: 0.2 } }}
+                        className="border-t border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800"
+                      >
+                        <td className={`p-2 font-bold ${t.color.replace('bg-', 'text-')}`}>{t.name}</td>
+                        <td className="p-2">{t.period}</td>
+                        <td className="p-2">{t.executionTime}</td>
+                        <td className="p-2">{t.deadline}</td>
+                        <td className="p-2">{(t.executionTime / t.period).toFixed(2)}</td>
+                        <td className="p-2 text-right">
+                          <button onClick={() => onRemoveTask(t.id)} className="text-rose-500 hover:text-rose-700 dark:hover:text-rose-400 text-xs font-semibold" disabled={isSimulating}>Remove</button>
+                        </td>
+                      </motion.tr>
+                    ))}
+                  </AnimatePresence>
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+              Total utilization {utilization.toFixed(2)}, hyperperiod {hyperperiodOf(tasks)}.
+            </p>
+          </div>
+        )}
+
+        <div className="mt-6">
+          <label htmlFor="rtHorizon" className="block text-sm font-medium text-slate-600 dark:text-slate-300 mb-1">Horizon (0 = hyperperiod, max {MAX_HORIZON})</label>
+          <input
+            id="rtHorizon"
+            type="number"
+            value={horizon}
+            onChange={e => onHorizonChange(Math.min(MAX_HORIZON, Math.max(0, parseInt(e.target.value, 10) || 0)))}
+            min="0"
+            max={MAX_HORIZON}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-4 pt-6 border-t border-slate-200 dark:border-slate-700">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <Tooltip content={EDF_DESC} position="left">
+            <button onClick={onSimulateEDF} disabled={disabled} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">EDF</button>
+          </Tooltip>
+          <Tooltip content={RM_DESC} position="right">
+            <button onClick={onSimulateRM} disabled={disabled} className="w-full bg-violet-600 hover:bg-violet-700 dark:hover:bg-violet-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Rate Monotonic</button>
+          </Tooltip>
+        </div>
+        <button onClick={onCompare} disabled={disabled} className="w-full bg-indigo-600 hover:bg-indigo-700 dark:hover:bg-indigo-500 text-white font-bold py-2 px-4 rounded-md transition duration-200 disabled:bg-slate-400 dark:disabled:bg-slate-600 flex items-center justify-center gap-2 active:scale-95">Compare EDF &amp; RM</button>
+      </div>
+    </div>
+  );
+};
+
+export default RealTimeSection;
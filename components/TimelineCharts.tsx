@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import type { ProcessState, TimelineSample } from '../types';
+import { cumulativeUtilization } from '../services/timeline';
+
+// One run's time series; several are overlaid on one time axis.
+export interface TimelineSeries {
+  name: string;
+  color: string;
+  timeline: TimelineSample[];
+  cores: number;
+}
+
+interface TimelineChartsProps {
+  series: TimelineSeries[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 150;
+const PLOT = { left: 36, right: 590, top: 8, bottom: 130 };
+
+const STATES: ProcessState[] = ['running', 'waiting', 'blocked', 'not arrived', 'completed'];
+
+// The same hues as the live dashboard's state badges.
+const STATE_COLORS: Record<ProcessState, string> = {
+  'running': '#db2777',
+  'waiting': '#64748b',
+  'blocked': '#f59e0b',
+  'not arrived': '#cbd5e1',
+  'completed': '#c026d3',
+};
+
+interface ScaleProps {
+  endTime: number;
+  maxValue: number;
+}
+
+const scales = ({ endTime, maxValue }: ScaleProps) => ({
+  x: (time: number) => PLOT.left + (time / (endTime || 1)) * (PLOT.right - PLOT.left),
+  y: (value: number) => PLOT.bottom - (value / (maxValue || 1)) * (PLOT.bottom - PLOT.top),
+});
+
+const Axes: React.FC<ScaleProps & { formatValue?: (value: number) => string }> = ({ endTime, maxValue, formatValue = v => String(Number(v.toFixed(1))) }) => {
+  const { x, y } = scales({ endTime, maxValue });
+  return (
+    <g className="text-slate-400 dark:text-slate-500">
+      <line x1={PLOT.left} y1={PLOT.bottom} x2={PLOT.right} y2={PLOT.bottom} stroke="currentColor" />
+      <line x1={PLOT.left} y1={PLOT.top} x2={PLOT.left} y2={PLOT.bottom} stroke="currentColor" />
+      {[0, maxValue / 2, maxValue].map((value, i) => (
+        <text key={i} x={PLOT.left - 4} y={y(value) + 3} textAnchor="end" fontSize="9" fill="currentColor">{formatValue(value)}</text>
+      ))}
+      {[0, 0.25, 0.5, 0.75, 1].map(fraction => (
+        <text key={fraction} x={x(fraction * endTime)} y={PLOT.bottom + 12} textAnchor="middle" fontSize="9" fill="currentColor">{Number((fraction * endTime).toFixed(1))}</text>
+      ))}
+    </g>
+  );
+};
+
+// A value held constant over each sample, drawn as a staircase.
+const stepPoints = (timeline: TimelineSample[], value: (sample: TimelineSample) => number, scale: ReturnType<typeof scales>): string =>
+  timeline
+    .filter(sample => sample.duration > 0)
+    .flatMap(sample => [`${scale.x(sample.time)},${scale.y(value(sample))}`, `${scale.x(sample.time + sample.duration)},${scale.y(value(sample))}`])
+    .join(' ');
+
+const ChartFrame: React.FC<{ title: string, children: React.ReactNode }> = ({ title, children }) => (
+  <div>
+    <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-300">{title}</h5>
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">{children}</svg>
+  </div>
+);
+
+// With a single run, every state stacked; with several, one state per run, chosen by the user.
+const StatesChart: React.FC<{ series: TimelineSeries[], endTime: number }> = ({ series, endTime }) => {
+  const [state, setState] = useState<ProcessState>('waiting');
+  const processCount = Math.max(...series.map(s => STATES.reduce((acc, st) => acc + (s.timeline[0]?.stateCounts[st] ?? 0), 0)));
+  const scale = scales({ endTime, maxValue: processCount });
+
+  if (series.length === 1) {
+    const samples = series[0].timeline.filter(sample => sample.duration > 0);
+    const below = (sample: TimelineSample, index: number) => STATES.slice(0, index).reduce((acc, st) => acc + sample.stateCounts[st], 0);
+    // The band of one state: along the top of its stack from left to right, then back along the bottom.
+    const band = (index: number): string => {
+      const edge = (level: number) => samples.flatMap(sample => [
+        [sample.time, below(sample, level)],
+        [sample.time + sample.duration, below(sample, level)],
+      ]);
+      return [...edge(index + 1), ...edge(index).reverse()].map(([time, value]) => `${scale.x(time)},${scale.y(value)}`).join(' ');
+    };
+    return (
+      <div>
+        <ChartFrame title="Processes by State">
+          {STATES.map((st, index) => (
+            <polygon key={st} points={band(index)} fill={STATE_COLORS[st]} fillOpacity={0.8}><title>{st}</title></polygon>
+          ))}
+          <Axes endTime={endTime} maxValue={processCount} />
+        </ChartFrame>
+        <div className="flex flex-wrap gap-3 mt-1 text-xs text-slate-600 dark:text-slate-300">
+          {STATES.map(st => (
+            <span key={st} className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: STATE_COLORS[st] }}></span>{st}</span>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <h5 className="text-sm font-semibold text-slate-700 dark:text-slate-300">Processes</h5>
+        <select
+          value={state}
+          onChange={e => setState(e.target.value as ProcessState)}
+          aria-label="Process state to plot"
+          className="bg-slate-100 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-md py-0.5 px-1 text-xs text-slate-800 dark:text-slate-200 outline-none"
+        >
+          {STATES.map(st => <option key={st} value={st}>{st}</option>)}
+        </select>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full">
+        {series.map((s, i) => (
+          <polyline key={i} points={stepPoints(s.timeline, sample => sample.stateCounts[state], scale)} fill="none" stroke={s.color} strokeWidth={1.5}><title>{s.name}</title></polyline>
+        ))}
+        <Axes endTime={endTime} maxValue={processCount} />
+      </svg>
+    </div>
+  );
+};
+
+const TimelineCharts: React.FC<TimelineChartsProps> = ({ series }) => {
+  const plotted = series.filter(s => s.timeline.length > 0);
+  if (plotted.length === 0) return null;
+  const endTime = Math.max(...plotted.map(s => {
+    const last = s.timeline[s.timeline.length - 1];
+    return last.time + last.duration;
+  }));
+  const maxQueue = Math.max(1, ...plotted.flatMap(s => s.timeline.map(sample => sample.readyQueueLength)));
+  const queueScale = scales({ endTime, maxValue: maxQueue });
+  const utilizationScale = scales({ endTime, maxValue: 1 });
+
+  return (
+    <div className="mt-6 space-y-4">
+      <h4 className="text-lg font-semibold text-slate-700 dark:text-slate-300">Timelines</h4>
+      {plotted.length > 1 && (
+        <div className="flex flex-wrap gap-3 text-xs text-slate-600 dark:text-slate-300">
+          {plotted.map((s, i) => (
+            <span key={i} className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: s.color }}></span>{s.name}</span>
+          ))}
+        </div>
+      )}
+      <ChartFrame title="Ready Queue Length">
+        {plotted.map((s, i) => (
+          <polyline key={i} points={stepPoints(s.timeline, sample => sample.readyQueueLength, queueScale)} fill="none" stroke={s.color} strokeWidth={1.5}><title>{s.name}</title></polyline>
+        ))}
+        <Axes endTime={endTime} maxValue={maxQueue} />
+      </ChartFrame>
+      <StatesChart series={plotted} endTime={endTime} />
+      <ChartFrame title="Cumulative CPU Utilization">
+        {plotted.map((s, i) => (
+          <polyline
+            key={i}
+            points={cumulativeUtilization(s.timeline, s.cores).map(point => `${utilizationScale.x(point.time)},${utilizationScale.y(point.utilization)}`).join(' ')}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={1.5}
+          >
+            <title>{s.name}</title>
+          </polyline>
+        ))}
+        <Axes endTime={endTime} maxValue={1} formatValue={v => `${(v * 100).toFixed(0)}%`} />
+      </ChartFrame>
+    </div>
+  );
+};
+
+export default TimelineCharts;
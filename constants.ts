@@ -1,3 +1,5 @@
+import type { MetricWeights, QueueClass, ResultMetric, TieBreakRule } from './types';
+
 export const PROCESS_COLORS = [
   'bg-rose-500', 'bg-fuchsia-500', 'bg-purple-500', 'bg-violet-500', 'bg-indigo-500',
   'bg-pink-500', 'bg-sky-500', 'bg-teal-500', 'bg-orange-500', 'bg-cyan-500'
@@ -6,4 +8,97 @@ export const PROCESS_COLORS = [
 export const PROCESS_TEXT_COLORS = [
   'text-rose-500', 'text-fuchsia-500', 'text-purple-500', 'text-violet-500', 'text-indigo-500',
   'text-pink-500', 'text-sky-500', 'text-teal-500', 'text-orange-500', 'text-cyan-500'
-];
\ No newline at end of file
+];
+
+// Queue classes in order of decreasing priority.
+export const QUEUE_CLASSES: QueueClass[] = ['system', 'interactive', 'batch'];
+
+// Group of a process added without one.
+export const DEFAULT_GROUP = 'A';
+
+// Linux CFS load weights for nice values -20..19 (sched_prio_to_weight). Nice 0 = 1024,
+// and each nice step changes the weight by roughly 1.25x.
+export const NICE_0_WEIGHT = 1024;
+export const NICE_TO_WEIGHT = [
+  88761, 71755, 56483, 46273, 36291,
+  29154, 23254, 18705, 14949, 11916,
+  9548, 7620, 6100, 4904, 3906,
+  3121, 2501, 1991, 1586, 1277,
+  1024, 820, 655, 526, 423,
+  335, 272, 215, 172, 137,
+  110, 87, 70, 56, 45,
+  36, 29, 23, 18, 15,
+];
+export const MIN_NICE = -20;
+export const MAX_NICE = 19;
+export const niceToWeight = (nice: number): number => NICE_TO_WEIGHT[nice - MIN_NICE];
+
+export const TIE_BREAK_LABELS: Record<TieBreakRule, string> = {
+  'arrival': 'arrival time, then id',
+  'id': 'process id',
+  'table-order': 'process table order',
+  'name': 'process name',
+};
+
+const formatPercent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+// How each schedule-level metric is labelled and shown, and which way is better when the
+// comparison sorts on it.
+export const RESULT_METRICS: Record<ResultMetric, { label: string, higherIsBetter: boolean, format: (value: number) => string }> = {
+  avgWaitingTime: { label: 'Avg. Waiting Time', higherIsBetter: false, format: v => v.toFixed(2) },
+  avgTurnaroundTime: { label: 'Avg. Turnaround Time', higherIsBetter: false, format: v => v.toFixed(2) },
+  avgResponseTime: { label: 'Avg. Response Time', higherIsBetter: false, format: v => v.toFixed(2) },
+  avgNormalizedTurnaround: { label: 'Avg. Normalized TAT', higherIsBetter: false, format: v => v.toFixed(2) },
+  maxWaitingTime: { label: 'Max. Waiting Time', higherIsBetter: false, format: v => String(v) },
+  throughput: { label: 'Throughput', higherIsBetter: true, format: v => `${v.toFixed(3)} per time unit` },
+  cpuUtilization: { label: 'CPU Utilization', higherIsBetter: true, format: formatPercent },
+  idleTime: { label: 'Idle Time', higherIsBetter: false, format: v => `${v} time units` },
+  contextSwitchCount: { label: 'Context Switches', higherIsBetter: false, format: v => String(v) },
+  preemptions: { label: 'Preemptions', higherIsBetter: false, format: v => String(v) },
+};
+
+// Line and bar colors of the comparison charts: one per algorithm, by its position in the run order.
+export const SERIES_COLORS = [
+  '#c026d3', '#7c3aed', '#2563eb', '#0891b2', '#059669', '#65a30d', '#ca8a04', '#ea580c', '#dc2626',
+  '#db2777', '#4f46e5', '#0d9488', '#16a34a', '#d97706', '#9333ea', '#e11d48', '#0284c7', '#475569',
+];
+
+// Every metric counts equally in the recommendation until the user says otherwise.
+export const DEFAULT_METRIC_WEIGHTS = Object.fromEntries(
+  (Object.keys(RESULT_METRICS) as ResultMetric[]).map(metric => [metric, 1]),
+) as MetricWeights;
+
+// Largest core count the multiprocessor settings allow.
+export const MAX_CORES = 8;
+
+// Largest Monte Carlo experiment the settings allow: trials, and processes per workload.
+export const MAX_EXPERIMENT_TRIALS = 1000;
+export const MAX_EXPERIMENT_PROCESSES = 20;
+
+// Most quanta a Round Robin quantum sweep may try.
+export const MAX_SWEEP_POINTS = 100;
+
+// Limits on a user-defined policy: the number of simulation steps it may take, and how long its
+// worker may run in all, loading included, before it is stopped. The step budget only counts the
+// engine's steps; time spent inside the policy's functions is bounded by the timeout.
+export const CUSTOM_POLICY_STEP_BUDGET = 20000;
+export const CUSTOM_POLICY_TIMEOUT_MS = 5000;
+
+export const DEFAULT_CUSTOM_POLICY_CODE = `// Called whenever a CPU needs a process; return one of readyQueue.
+// running is the process on that CPU (null if it is idle), time the current time.
+// Processes have id, name, arrivalTime, burstTime, remainingTime, priority,
+// tickets, nice, queueClass, group and state.
+function pickNext(readyQueue, running, time) {
+  return readyQueue.reduce((best, p) => p.remainingTime < best.remainingTime ? p : best);
+}
+
+// Optional: return true to let candidate take the CPU away from running.
+// function shouldPreempt(running, candidate, time) {
+//   return candidate.remainingTime < running.remainingTime;
+// }
+
+// Optional: time units a process may run before it goes to the back of the queue.
+// function quantum(process) {
+//   return 4;
+// }
+`;
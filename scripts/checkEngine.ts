@@ -0,0 +1,145 @@
+import type { AlgorithmResult, MachineConfig, Process, RealTimeTask } from '../types';
+import { QUEUE_CLASSES } from '../constants';
+import { createRandom } from '../services/random';
+import { generateWorkload } from '../services/experiment';
+import { expandJobs } from '../services/realTime';
+import { schedule, runToCompletion, type SchedulingPolicy } from '../services/schedulingEngine';
+import {
+  fcfsPolicy, sjfPolicy, hrrnPolicy, srtfPolicy, ljfPolicy, lrtfPolicy, edfPolicy, rateMonotonicPolicy,
+  createPredictedSjfPolicy, createPredictedSrtfPolicy, createRoundRobinPolicy, createMlfqPolicy, createMultilevelQueuePolicy,
+  createLotteryPolicy, createStridePolicy, createCfsPolicy, createFairSharePolicy,
+  createPriorityNonPreemptivePolicy, createPriorityPreemptivePolicy,
+} from '../services/schedulingAlgorithms';
+
+// Checks the event-driven engine against stepping one time unit at a time, as the per-tick
+// engine it replaced did. Every built-in policy runs on seeded random workloads with whole-number
+// times, on several machines, both ways; the results must be identical.
+//
+//   npm run check:engine [workloads]
+
+const WORKLOADS = Number(process.argv[2] ?? 200);
+
+// Policies keep per-run state, so each run gets a fresh one.
+const POLICIES: (() => SchedulingPolicy)[] = [
+  () => fcfsPolicy,
+  () => sjfPolicy,
+  () => hrrnPolicy,
+  () => srtfPolicy,
+  () => ljfPolicy,
+  () => lrtfPolicy,
+  () => createPredictedSjfPolicy({ alpha: 0.5, initialTau: 10 }),
+  () => createPredictedSrtfPolicy({ alpha: 0.5, initialTau: 10 }),
+  () => createPriorityNonPreemptivePolicy(),
+  () => createPriorityPreemptivePolicy(),
+  () => createPriorityNonPreemptivePolicy({ enabled: true, interval: 3, step: 1 }),
+  () => createPriorityPreemptivePolicy({ enabled: true, interval: 2, step: 1 }),
+  () => createRoundRobinPolicy({ timeQuantum: 3, queueOrder: 'preempted-first', quantumMode: 'fixed', priorityQuanta: [8, 4, 2] }),
+  () => createRoundRobinPolicy({ timeQuantum: 2, queueOrder: 'arrivals-first', quantumMode: 'dynamic-median', priorityQuanta: [8, 4, 2] }),
+  () => createRoundRobinPolicy({ timeQuantum: 3, queueOrder: 'preempted-first', quantumMode: 'per-priority', priorityQuanta: [4, 2, 1] }),
+  () => createRoundRobinPolicy({ timeQuantum: 3, queueOrder: 'arrivals-first', quantumMode: 'virtual', priorityQuanta: [8, 4, 2] }),
+  () => createMlfqPolicy({ quanta: [2, 4, 8], boostInterval: 10 }),
+  ...(['fixed-priority', 'time-slice'] as const).map(arbitration => () => createMultilevelQueuePolicy({
+    arbitration,
+    queues: {
+      system: { algorithm: 'FCFS', timeQuantum: 2, timeSlice: 5 },
+      interactive: { algorithm: 'RR', timeQuantum: 2, timeSlice: 3 },
+      batch: { algorithm: 'SJF', timeQuantum: 4, timeSlice: 2 },
+    },
+  })),
+  () => createLotteryPolicy({ seed: 42, quantum: 2 }),
+  () => createStridePolicy({ seed: 42, quantum: 2 }),
+  () => createCfsPolicy({ targetLatency: 12, minGranularity: 2 }),
+  () => createFairSharePolicy({ quantum: 2, groupWeights: { A: 2 } }),
+];
+
+const REAL_TIME_POLICIES: SchedulingPolicy[] = [edfPolicy, rateMonotonicPolicy];
+
+const MACHINES: MachineConfig[] = [
+  { cores: 1, topology: 'global', balanceInterval: 0, contextSwitchCost: 0, tieBreak: 'arrival' },
+  { cores: 1, topology: 'global', balanceInterval: 0, contextSwitchCost: 1, tieBreak: 'name' },
+  { cores: 2, topology: 'global', balanceInterval: 0, contextSwitchCost: 2, tieBreak: 'id' },
+  { cores: 2, topology: 'per-core', balanceInterval: 0, contextSwitchCost: 1, tieBreak: 'arrival' },
+  { cores: 3, topology: 'per-core', balanceInterval: 3, contextSwitchCost: 0, tieBreak: 'table-order' },
+];
+
+// generateWorkload's processes, some given I/O bursts, a second group or a pinned core.
+const randomWorkload = (random: () => number): Process[] =>
+  generateWorkload(random, {
+    trials: 1, seed: 0, minProcesses: 1, maxProcesses: 6, maxArrivalTime: 10, minBurst: 1, maxBurst: 8, metric: 'avgWaitingTime',
+  }).map(p => {
+    const withIo = p.burstTime > 1 && random() < 0.4;
+    const firstCpu = 1 + Math.floor(random() * (p.burstTime - 1));
+    return {
+      ...p,
+      queueClass: QUEUE_CLASSES[Math.floor(random() * QUEUE_CLASSES.length)],
+      group: random() < 0.5 ? 'A' : 'B',
+      ...(random() < 0.15 && { affinity: Math.floor(random() * 3) }),
+      ...(withIo && {
+        bursts: [
+          { kind: 'cpu' as const, duration: firstCpu },
+          { kind: 'io' as const, duration: 1 + Math.floor(random() * 5) },
+          { kind: 'cpu' as const, duration: p.burstTime - firstCpu },
+        ],
+      }),
+    };
+  });
+
+const randomTasks = (random: () => number): RealTimeTask[] =>
+  Array.from({ length: 2 + Math.floor(random() * 2) }, (_, i) => {
+    const period = 3 + Math.floor(random() * 6);
+    return { id: i + 1, name: `T${i + 1}`, period, executionTime: 1 + Math.floor(random() * 2), deadline: period, color: 'bg-sky-500' };
+  });
+
+const run = (policy: SchedulingPolicy, processes: Process[], machine: MachineConfig, unitSteps: boolean): AlgorithmResult =>
+  runToCompletion(schedule(policy, processes, machine, { unitSteps }));
+
+// Shares and virtual runtimes are sums of many fractions, which come out slightly differently
+// when added up a unit at a time; numbers this close count as equal.
+const TOLERANCE = 1e-6;
+
+// Where two values differ, as a path into them, or null when they match.
+const findDifference = (a: unknown, b: unknown, path: string): string | null => {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a === b || Math.abs(a - b) <= TOLERANCE * Math.max(1, Math.abs(a)) ? null : path;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return a === b ? null : path;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    const difference = findDifference((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], `${path}.${key}`);
+    if (difference) return difference;
+  }
+  return null;
+};
+
+const valueAt = (result: AlgorithmResult, path: string): unknown =>
+  path.split('.').slice(1).reduce<unknown>((value, key) => (value as Record<string, unknown> | undefined)?.[key], result);
+
+const random = createRandom(2024);
+let runs = 0;
+let failures = 0;
+
+const compare = (makePolicy: () => SchedulingPolicy, processes: Process[], machine: MachineConfig, workload: number) => {
+  runs++;
+  const event = run(makePolicy(), processes, machine, false);
+  const unit = run(makePolicy(), processes, machine, true);
+  const difference = findDifference(event, unit, 'result');
+  if (!difference) return;
+  failures++;
+  if (failures > 5) return;
+  console.error(`\n${unit.name}, workload ${workload}, machine ${JSON.stringify(machine)}`);
+  console.error(`  processes: ${JSON.stringify(processes.map(({ name, arrivalTime, burstTime, priority, tickets, nice, queueClass, group, affinity, bursts }) =>
+    ({ name, arrivalTime, burstTime, priority, tickets, nice, queueClass, group, affinity, bursts })))}`);
+  console.error(`  ${difference}:\n    event steps: ${JSON.stringify(valueAt(event, difference))}\n    unit steps:  ${JSON.stringify(valueAt(unit, difference))}`);
+};
+
+for (let workload = 0; workload < WORKLOADS; workload++) {
+  const processes = randomWorkload(random);
+  const jobs = expandJobs(randomTasks(random), 24);
+  MACHINES.forEach(machine => {
+    POLICIES.forEach(makePolicy => compare(makePolicy, processes, machine, workload));
+    REAL_TIME_POLICIES.forEach(policy => compare(() => policy, jobs, machine, workload));
+  });
+}
+
+console.log(`${runs - failures} of ${runs} runs match.`);
+if (failures > 0) process.exit(1);
@@ -0,0 +1,47 @@
+import type { Burst, Process } from '../types';
+
+// Parses a burst sequence such as "CPU 4, IO 3, CPU 2". Returns the bursts, or an error message
+// when the text is malformed or the bursts do not alternate CPU and I/O starting and ending with CPU.
+export const parseBurstSequence = (text: string): Burst[] | string => {
+  const parts = text.split(',').map(part => part.trim()).filter(part => part !== '');
+  if (parts.length === 0) return "Burst Sequence is empty.";
+
+  const bursts: Burst[] = [];
+  for (const part of parts) {
+    const match = /^(cpu|i\/?o)\s+(\d+(?:\.\d+)?)$/i.exec(part);
+    if (!match) return `Cannot read "${part}". Write each burst as "CPU n" or "IO n".`;
+    const duration = parseFloat(match[2]);
+    if (duration <= 0) return "Every burst must last longer than 0 time units.";
+    bursts.push({ kind: match[1].toLowerCase() === 'cpu' ? 'cpu' : 'io', duration });
+  }
+
+  if (bursts.some((burst, i) => burst.kind !== (i % 2 === 0 ? 'cpu' : 'io'))) {
+    return "Bursts must alternate CPU and IO, starting with CPU.";
+  }
+  if (bursts[bursts.length - 1].kind !== 'cpu') return "A Burst Sequence must end with a CPU burst.";
+  return bursts;
+};
+
+// Parses a burst history such as "6, 4, 6, 4": past CPU burst lengths, oldest first.
+export const parseBurstHistory = (text: string): number[] | string => {
+  const parts = text.split(',').map(part => part.trim()).filter(part => part !== '');
+  const history = parts.map(part => Number(part));
+  if (history.some(burst => !Number.isFinite(burst) || burst <= 0)) {
+    return "Burst History must be a comma-separated list of positive numbers.";
+  }
+  return history;
+};
+
+export const formatBurstSequence = (bursts: Burst[]): string =>
+  bursts.map(burst => `${burst.kind === 'cpu' ? 'CPU' : 'IO'} ${burst.duration}`).join(', ');
+
+export const totalCpuTime = (bursts: Burst[]): number =>
+  bursts.filter(burst => burst.kind === 'cpu').reduce((acc, burst) => acc + burst.duration, 0);
+
+// Length of the CPU burst a process is on (or about to start), and how much of it is left.
+// A process without a burst sequence has a single CPU burst covering its whole burst time.
+export const currentCpuBurst = (p: Process): number =>
+  p.bursts && p.burstIndex !== undefined ? p.bursts[p.burstIndex].duration : p.burstTime;
+
+export const remainingCpuBurst = (p: Process): number =>
+  p.bursts && p.burstRemaining !== undefined ? p.burstRemaining : p.remainingTime;
@@ -0,0 +1,139 @@
+import type { AlgorithmResult, CustomPolicy, GanttEntry, MachineConfig, Process, ResultMetric, SimulationStep } from '../types';
+import { CUSTOM_POLICY_TIMEOUT_MS, RESULT_METRICS } from '../constants';
+import { createEmptyResult, roundTime } from './schedulingEngine';
+import { countStates } from './timeline';
+
+// User-defined policies run in a Web Worker (customPolicy.worker.ts), away from the page: the
+// worker simulates the whole schedule and sends back every step, which the live dashboard then
+// replays. A policy that throws, runs past its step budget or hangs ends its run with an error
+// instead of taking the page down.
+
+const STORAGE_KEY = 'customPolicies';
+
+export interface CustomPolicyRequest {
+  policy: CustomPolicy;
+  processes: Process[];
+  machine: MachineConfig;
+}
+
+// Messages from the worker: `compiled` once the code has loaded, then one `done`. A second
+// `compiled` is treated as malformed.
+export type CustomPolicyMessage =
+  | { kind: 'compiled' }
+  | { kind: 'done', steps: SimulationStep[], result: AlgorithmResult | null, error?: string };
+
+export type CustomPolicyRun = Omit<Extract<CustomPolicyMessage, { kind: 'done' }>, 'kind'>;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isProcess = (value: unknown): value is Process =>
+  isRecord(value)
+  && typeof value.name === 'string'
+  && typeof value.state === 'string'
+  && (['arrivalTime', 'burstTime', 'remainingTime', 'completionTime', 'turnaroundTime', 'waitingTime'] as const).every(field => typeof value[field] === 'number');
+
+const isGanttEntry = (value: unknown): value is GanttEntry =>
+  isRecord(value) && typeof value.processName === 'string' && typeof value.start === 'number' && typeof value.end === 'number';
+
+const isStep = (value: unknown): value is SimulationStep =>
+  isRecord(value)
+  && typeof value.time === 'number'
+  && typeof value.duration === 'number'
+  && Array.isArray(value.readyQueue) && value.readyQueue.every(isProcess)
+  && Array.isArray(value.processes) && value.processes.every(isProcess)
+  && isRecord(value.stateCounts)
+  && typeof value.eventMessage === 'string';
+
+const isResult = (value: unknown): value is AlgorithmResult =>
+  isRecord(value)
+  && typeof value.name === 'string'
+  && Array.isArray(value.ganttChart) && value.ganttChart.every(isGanttEntry)
+  && Array.isArray(value.processes) && value.processes.every(isProcess)
+  && Array.isArray(value.timeline)
+  && isRecord(value.fairness)
+  && typeof value.totalTime === 'number'
+  && (Object.keys(RESULT_METRICS) as ResultMetric[]).every(metric => typeof value[metric] === 'number');
+
+// The policy's code runs in the same worker that posts the messages and can post its own, so a
+// message is only used once it has the shape the page relies on.
+const isCustomPolicyMessage = (value: unknown): value is CustomPolicyMessage =>
+  isRecord(value) && (value.kind === 'compiled' || (
+    value.kind === 'done'
+    && Array.isArray(value.steps) && value.steps.every(isStep)
+    && (value.result === null || isResult(value.result))
+    && (value.error === undefined || typeof value.error === 'string')
+  ));
+
+export const loadCustomPolicies = (): CustomPolicy[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveCustomPolicies = (policies: CustomPolicy[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(policies));
+};
+
+// Runs a policy to completion in a fresh worker. Loading and running the code share one deadline
+// of CUSTOM_POLICY_TIMEOUT_MS, which also bounds the time spent inside the policy's own functions;
+// a worker that overruns it is terminated. Nothing the worker sends can extend the deadline.
+export const runCustomPolicy = (policy: CustomPolicy, processes: Process[], machine: MachineConfig): Promise<CustomPolicyRun> =>
+  new Promise(resolve => {
+    const worker = new Worker(new URL('./customPolicy.worker.ts', import.meta.url), { type: 'module' });
+    let compiled = false;
+
+    const finish = (run: CustomPolicyRun) => {
+      window.clearTimeout(timer);
+      worker.terminate();
+      resolve(run);
+    };
+    const timer = window.setTimeout(() => finish({
+      steps: [],
+      result: null,
+      error: `${policy.name} did not finish ${compiled ? '' : 'loading '}within ${CUSTOM_POLICY_TIMEOUT_MS / 1000} seconds and was stopped.`,
+    }), CUSTOM_POLICY_TIMEOUT_MS);
+
+    worker.onmessage = (event: MessageEvent<unknown>) => {
+      const message = event.data;
+      if (!isCustomPolicyMessage(message) || (message.kind === 'compiled' && compiled)) {
+        finish({ steps: [], result: null, error: `${policy.name} sent back a malformed message and was stopped.` });
+      } else if (message.kind === 'compiled') {
+        compiled = true;
+      } else {
+        finish({ steps: message.steps, result: message.result, error: message.error });
+      }
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      finish({ steps: [], result: null, error: event.message || 'The policy worker failed to start.' });
+    };
+
+    const request: CustomPolicyRequest = { policy, processes, machine };
+    worker.postMessage(request);
+  });
+
+// The batch result of a run, or an empty result carrying the error.
+export const customPolicyResult = (run: CustomPolicyRun, name: string): AlgorithmResult =>
+  run.result ?? { ...createEmptyResult(name), error: run.error };
+
+// Replays a finished run as a live simulation. A failed run ends with a step whose message is
+// the error, so it shows up in the scheduler log.
+export function* replayCustomPolicy(run: CustomPolicyRun, name: string, processes: Process[]): Generator<SimulationStep, AlgorithmResult> {
+  yield* run.steps;
+  if (run.error) {
+    const last = run.steps[run.steps.length - 1];
+    yield {
+      time: last ? roundTime(last.time + last.duration) : 0,
+      duration: 0,
+      runningProcess: null,
+      readyQueue: [],
+      processes: last ? last.processes : processes,
+      stateCounts: countStates(last ? last.processes : processes),
+      eventMessage: `Custom policy stopped: ${run.error}`,
+    };
+  }
+  return customPolicyResult(run, name);
+}
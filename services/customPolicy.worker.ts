@@ -0,0 +1,96 @@
+import type { Process, SimulationStep } from '../types';
+import { CUSTOM_POLICY_STEP_BUDGET } from '../constants';
+import { schedule, type SchedulingPolicy } from './schedulingEngine';
+import type { CustomPolicyMessage, CustomPolicyRequest } from './customPolicy';
+
+// Runs one user-defined policy (see customPolicy.ts) and posts back its steps and result.
+
+
+// Shadowing these names keeps policy code from using them by accident. It does not lock the code
+// in: it can still reach the real worker global, e.g. through Function('return this')(), so the
+// page checks every message it receives (see customPolicy.ts).
+const HIDDEN_GLOBALS = ['self', 'globalThis', 'postMessage', 'close', 'importScripts', 'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'indexedDB', 'caches'];
+
+interface CustomHooks {
+  pickNext?: (readyQueue: Process[], running: Process | null, time: number) => Process;
+  shouldPreempt?: (running: Process, candidate: Process, time: number) => unknown;
+  quantum?: (process: Process) => unknown;
+}
+
+// User code sees frozen copies, so it cannot change the engine's processes.
+const view = (process: Process): Process => Object.freeze({ ...process });
+
+const callHook = <T>(hook: string, call: () => T): T => {
+  try {
+    return call();
+  } catch (error) {
+    throw new Error(`${hook} threw ${error instanceof Error ? `${error.name}: ${error.message}` : String(error)}`);
+  }
+};
+
+// TypeScript is turned into JavaScript by Sucrase, which is bundled with the app and loaded on
+// first use.
+const toJavaScript = async (code: string): Promise<string> => {
+  let transform: typeof import('sucrase').transform;
+  try {
+    ({ transform } = await import('sucrase'));
+  } catch (error) {
+    throw new Error(`The TypeScript compiler could not be loaded (${error instanceof Error ? error.message : String(error)}), so the policy was not run.`);
+  }
+  return callHook('Compiling the policy code', () => transform(code, { transforms: ['typescript'] }).code);
+};
+
+const compileCustomPolicy = async (name: string, code: string): Promise<SchedulingPolicy> => {
+  const source = await toJavaScript(code);
+  const exports = ['pickNext', 'shouldPreempt', 'quantum']
+    .map(hook => `${hook}: typeof ${hook} === 'function' ? ${hook} : undefined`)
+    .join(', ');
+  const hooks: CustomHooks = callHook('The policy code', () =>
+    new Function(...HIDDEN_GLOBALS, `"use strict";\n${source}\nreturn { ${exports} };`)());
+  const { pickNext, shouldPreempt, quantum } = hooks;
+  if (!pickNext) throw new Error('The policy code must define a pickNext(readyQueue, running, time) function.');
+
+  return {
+    name,
+    select: (readyQueue, time, running) => {
+      const choice = callHook('pickNext', () => pickNext(readyQueue.map(view), running && view(running), time));
+      const selected = readyQueue.find(p => p.id === choice?.id);
+      if (!selected) throw new Error(`pickNext returned ${choice?.name ?? String(choice)}, which is not in the ready queue at time ${time}.`);
+      return selected;
+    },
+    ...(shouldPreempt && {
+      shouldPreempt: (running: Process, candidate: Process, time: number) =>
+        Boolean(callHook('shouldPreempt', () => shouldPreempt(view(running), view(candidate), time))),
+    }),
+    ...(quantum && {
+      timeQuantum: (process: Process) => {
+        const length = Number(callHook('quantum', () => quantum(view(process))));
+        if (!(length > 0)) throw new Error(`quantum returned ${length} for ${process.name}; it must return a positive number.`);
+        return length;
+      },
+    }),
+  };
+};
+
+const reply = (message: CustomPolicyMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<CustomPolicyRequest>) => {
+  const { policy, processes, machine } = event.data;
+  const steps: SimulationStep[] = [];
+  try {
+    const compiled = await compileCustomPolicy(policy.name, policy.code);
+    reply({ kind: 'compiled' });
+    const simulation = schedule(compiled, processes, machine);
+    let next = simulation.next();
+    while (next.done !== true) {
+      if (steps.length >= CUSTOM_POLICY_STEP_BUDGET) {
+        throw new Error(`${policy.name} used up its budget of ${CUSTOM_POLICY_STEP_BUDGET} steps.`);
+      }
+      steps.push(next.value);
+      next = simulation.next();
+    }
+    reply({ kind: 'done', steps, result: next.value });
+  } catch (error) {
+    reply({ kind: 'done', steps, result: null, error: error instanceof Error ? error.message : String(error) });
+  }
+};
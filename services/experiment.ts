@@ -0,0 +1,119 @@
+import type { AlgorithmResult, AlgorithmSettings, ExperimentConfig, ExperimentReport, ExperimentSummary, ExperimentTrial, Process, ResultMetric } from '../types';
+import { DEFAULT_GROUP, PROCESS_COLORS, QUEUE_CLASSES, RESULT_METRICS } from '../constants';
+import { estimateMean } from './statistics';
+
+// Monte Carlo experiments run every built-in algorithm on many random workloads, in a Web Worker
+// (experiment.worker.ts) so the page stays responsive. The same seed always generates the same
+// workloads, so an experiment can be repeated exactly.
+
+export interface ExperimentRequest {
+  config: ExperimentConfig;
+  settings: AlgorithmSettings;
+}
+
+// Messages from the worker: `progress` after every trial, then one `done`.
+export type ExperimentMessage =
+  | { kind: 'progress', completed: number }
+  | { kind: 'done', report: ExperimentReport };
+
+const METRICS = Object.keys(RESULT_METRICS) as ResultMetric[];
+
+// A whole number drawn uniformly from min to max, both included.
+const randomInt = (random: () => number, min: number, max: number): number =>
+  min + Math.floor(random() * (max - min + 1));
+
+export const generateWorkload = (random: () => number, config: ExperimentConfig): Process[] =>
+  Array.from({ length: randomInt(random, config.minProcesses, config.maxProcesses) }, (_, i) => {
+    const burstTime = randomInt(random, config.minBurst, config.maxBurst);
+    return {
+      id: i + 1,
+      name: `P${i + 1}`,
+      arrivalTime: randomInt(random, 0, config.maxArrivalTime),
+      burstTime,
+      priority: randomInt(random, 0, 4),
+      tickets: randomInt(random, 1, 10) * 25,
+      nice: randomInt(random, -5, 5),
+      queueClass: QUEUE_CLASSES[randomInt(random, 0, QUEUE_CLASSES.length - 1)],
+      group: DEFAULT_GROUP,
+      remainingTime: burstTime,
+      color: PROCESS_COLORS[i % PROCESS_COLORS.length],
+      completionTime: 0,
+      turnaroundTime: 0,
+      waitingTime: 0,
+      state: 'not arrived' as const,
+    };
+  });
+
+export const toTrials = (trial: number, processCount: number, results: AlgorithmResult[]): ExperimentTrial[] =>
+  results.map(result => ({
+    trial,
+    algorithm: result.name,
+    processCount,
+    metrics: Object.fromEntries(METRICS.map(metric => [metric, result[metric]])) as Record<ResultMetric, number>,
+  }));
+
+// Values within this distance of the best (or worst) of a trial count as tied with it.
+const TIE_TOLERANCE = 1e-9;
+
+export const summarizeExperiment = (config: ExperimentConfig, trials: ExperimentTrial[]): ExperimentSummary[] => {
+  const algorithms = [...new Set(trials.map(row => row.algorithm))];
+  const wins = new Map<string, number>();
+  const losses = new Map<string, number>();
+  const sign = RESULT_METRICS[config.metric].higherIsBetter ? -1 : 1;
+  for (let trial = 1; trial <= config.trials; trial++) {
+    const rows = trials.filter(row => row.trial === trial);
+    const scores = rows.map(row => sign * row.metrics[config.metric]);
+    const best = Math.min(...scores);
+    const worst = Math.max(...scores);
+    if (worst - best <= TIE_TOLERANCE) continue;
+    rows.forEach((row, i) => {
+      if (scores[i] - best <= TIE_TOLERANCE) wins.set(row.algorithm, (wins.get(row.algorithm) ?? 0) + 1);
+      if (worst - scores[i] <= TIE_TOLERANCE) losses.set(row.algorithm, (losses.get(row.algorithm) ?? 0) + 1);
+    });
+  }
+  return algorithms.map(algorithm => {
+    const rows = trials.filter(row => row.algorithm === algorithm);
+    return {
+      algorithm,
+      metrics: Object.fromEntries(METRICS.map(metric => [metric, estimateMean(rows.map(row => row.metrics[metric]))])) as ExperimentSummary['metrics'],
+      wins: wins.get(algorithm) ?? 0,
+      losses: losses.get(algorithm) ?? 0,
+    };
+  });
+};
+
+const csvField = (value: string | number): string =>
+  typeof value === 'string' && /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : String(value);
+
+// The raw per-trial results, one row per trial and algorithm.
+export const experimentCsv = (report: ExperimentReport): string =>
+  [
+    ['trial', 'algorithm', 'processes', ...METRICS],
+    ...report.trials.map(row => [row.trial, row.algorithm, row.processCount, ...METRICS.map(metric => row.metrics[metric])]),
+  ].map(fields => fields.map(csvField).join(',')).join('\n') + '\n';
+
+// Runs an experiment in a fresh worker, reporting the number of finished trials as it goes.
+export const runExperiment = (
+  config: ExperimentConfig,
+  settings: AlgorithmSettings,
+  onProgress: (completed: number) => void,
+): Promise<ExperimentReport> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./experiment.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ExperimentMessage>) => {
+      const message = event.data;
+      if (message.kind === 'progress') {
+        onProgress(message.completed);
+      } else {
+        worker.terminate();
+        resolve(message.report);
+      }
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      worker.terminate();
+      reject(new Error(event.message || 'The experiment worker failed.'));
+    };
+    const request: ExperimentRequest = { config, settings };
+    worker.postMessage(request);
+  });
@@ -0,0 +1,20 @@
+import type { ExperimentTrial } from '../types';
+import { runAllAlgorithms } from './schedulingAlgorithms';
+import { createRandom } from './random';
+import { generateWorkload, summarizeExperiment, toTrials, type ExperimentMessage, type ExperimentRequest } from './experiment';
+
+// Runs one experiment (see experiment.ts) and posts back its progress and report.
+
+const reply = (message: ExperimentMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<ExperimentRequest>) => {
+  const { config, settings } = event.data;
+  const random = createRandom(config.seed);
+  const trials: ExperimentTrial[] = [];
+  for (let trial = 1; trial <= config.trials; trial++) {
+    const workload = generateWorkload(random, config);
+    trials.push(...toTrials(trial, workload.length, runAllAlgorithms(workload, settings)));
+    reply({ kind: 'progress', completed: trial });
+  }
+  reply({ kind: 'done', report: { config, trials, summaries: summarizeExperiment(config, trials) } });
+};
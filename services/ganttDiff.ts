@@ -0,0 +1,39 @@
+import type { GanttEntry, ScheduleDifference } from '../types';
+import { roundTime } from './schedulingEngine';
+
+// Compares schedules on one time axis. Context-switch overhead counts as running nothing, and on
+// a multiprocessor run only the set of running processes matters, not which core each ran on.
+
+// What each core is doing at `time`: the Gantt entry covering it, or null when the core is idle.
+export const entriesAt = (chart: GanttEntry[], time: number, cores: number = 1): (GanttEntry | null)[] =>
+  Array.from({ length: cores }, (_, core) =>
+    chart.find(entry => (entry.core ?? 0) === core && entry.start <= time && time < entry.end) ?? null);
+
+const runningKey = (chart: GanttEntry[], time: number): string =>
+  chart
+    .filter(entry => entry.kind !== 'switch' && entry.start <= time && time < entry.end)
+    .map(entry => entry.processName)
+    .sort()
+    .join('\u0000');
+
+// The intervals in which the two schedules ran different processes, merged where they touch.
+export const diffSchedules = (a: GanttEntry[], b: GanttEntry[]): ScheduleDifference[] => {
+  const boundaries = [...new Set([0, ...[...a, ...b].flatMap(entry => [entry.start, entry.end])])].sort((x, y) => x - y);
+  const differences: ScheduleDifference[] = [];
+  for (let i = 0; i + 1 < boundaries.length; i++) {
+    const start = boundaries[i];
+    const end = boundaries[i + 1];
+    const middle = (start + end) / 2;
+    if (runningKey(a, middle) === runningKey(b, middle)) continue;
+    const last = differences[differences.length - 1];
+    if (last && last.end === start) {
+      last.end = end;
+    } else {
+      differences.push({ start, end });
+    }
+  }
+  return differences;
+};
+
+export const differenceTime = (differences: ScheduleDifference[]): number =>
+  roundTime(differences.reduce((sum, d) => sum + d.end - d.start, 0));
@@ -0,0 +1,35 @@
+import type { Process, PredictionConfig, PredictionReport } from '../types';
+import { roundTime } from './schedulingEngine';
+
+// Burst prediction by exponential averaging, for the predicted SJF and SRTF policies. After a CPU
+// burst of length t(n) the estimate of the next one becomes τ(n+1) = α·t(n) + (1 − α)·τ(n),
+// starting from τ₀. A process's burst history is folded in before the run starts.
+
+export const nextEstimate = ({ alpha }: PredictionConfig, tau: number, burst: number): number =>
+  roundTime(alpha * burst + (1 - alpha) * tau);
+
+// The estimate for a process's first CPU burst of the run.
+export const initialEstimate = (config: PredictionConfig, p: Process): number =>
+  (p.burstHistory ?? []).reduce((tau, burst) => nextEstimate(config, tau, burst), config.initialTau);
+
+const cpuBurstsOf = (p: Process): number[] =>
+  p.bursts ? p.bursts.filter(burst => burst.kind === 'cpu').map(burst => burst.duration) : [p.burstTime];
+
+// The estimates depend only on the history and on the bursts themselves, not on the schedule,
+// so the report is the same for every run of the same processes.
+export const buildPredictionReport = (processes: Process[], config: PredictionConfig): PredictionReport => {
+  const errors = processes.flatMap(p => {
+    let tau = initialEstimate(config, p);
+    return cpuBurstsOf(p).map(burst => {
+      const error = tau - burst;
+      tau = nextEstimate(config, tau, burst);
+      return error;
+    });
+  });
+  const count = Math.max(1, errors.length);
+  return {
+    predictions: errors.length,
+    meanAbsoluteError: errors.reduce((acc, e) => acc + Math.abs(e), 0) / count,
+    meanError: errors.reduce((acc, e) => acc + e, 0) / count,
+  };
+};
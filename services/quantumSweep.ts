@@ -0,0 +1,29 @@
+import type { MachineConfig, Process, QuantumSweepConfig, QuantumSweepReport, RoundRobinConfig } from '../types';
+import { runFCFS, runRoundRobin, runSRTF } from './schedulingAlgorithms';
+import { roundTime } from './schedulingEngine';
+
+// The quanta of a sweep, `to` included when the steps land on it.
+export const sweepQuanta = ({ from, to, step }: QuantumSweepConfig): number[] => {
+  const quanta: number[] = [];
+  for (let i = 0; roundTime(from + i * step) <= to; i++) quanta.push(roundTime(from + i * step));
+  return quanta;
+};
+
+// Runs Round Robin once per quantum. The sweep varies the configured quantum, so the dynamic and
+// per-priority modes, which ignore it, run as fixed-quantum RR; the queue order is kept.
+export const runQuantumSweep = (
+  processes: Process[],
+  sweep: QuantumSweepConfig,
+  rrConfig: RoundRobinConfig,
+  machine: MachineConfig,
+): QuantumSweepReport => {
+  const quantumMode = rrConfig.quantumMode === 'virtual' ? 'virtual' : 'fixed';
+  return {
+    points: sweepQuanta(sweep).map(quantum => ({
+      quantum,
+      result: runRoundRobin(processes, { ...rrConfig, quantumMode, timeQuantum: quantum }, machine),
+    })),
+    fcfs: runFCFS(processes, machine),
+    srtf: runSRTF(processes, machine),
+  };
+};
@@ -0,0 +1,12 @@
+// Mulberry32: a tiny seedable PRNG. The same seed always yields the same sequence, which is
+// what makes lottery runs reproducible. Returns floats in [0, 1).
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
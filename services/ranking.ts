@@ -0,0 +1,30 @@
+import type { AlgorithmResult, MetricWeights, RankedResult, ResultMetric } from '../types';
+import { RESULT_METRICS } from '../constants';
+
+// Ranks the results of one comparison by a weighted mean of their normalized metrics. Each metric
+// is scaled over the results being compared, so a score only says how an algorithm did on this
+// workload relative to the others. A metric on which every algorithm ties scores 1 for all.
+
+const METRICS = Object.keys(RESULT_METRICS) as ResultMetric[];
+
+const normalize = (results: AlgorithmResult[], metric: ResultMetric): number[] => {
+  const values = results.map(result => result[metric]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max - min <= 1e-9) return values.map(() => 1);
+  return values.map(value => RESULT_METRICS[metric].higherIsBetter ? (value - min) / (max - min) : (max - value) / (max - min));
+};
+
+// Best first. Failed runs are left out.
+export const rankResults = (results: AlgorithmResult[], weights: MetricWeights): RankedResult[] => {
+  const ranked = results.filter(result => !result.error);
+  const normalized = Object.fromEntries(METRICS.map(metric => [metric, normalize(ranked, metric)])) as Record<ResultMetric, number[]>;
+  const totalWeight = METRICS.reduce((acc, metric) => acc + weights[metric], 0);
+  return ranked
+    .map((result, i) => {
+      const scores = Object.fromEntries(METRICS.map(metric => [metric, normalized[metric][i]])) as Record<ResultMetric, number>;
+      const total = totalWeight > 0 ? METRICS.reduce((acc, metric) => acc + weights[metric] * scores[metric], 0) / totalWeight : 0;
+      return { result, scores, total };
+    })
+    .sort((a, b) => b.total - a.total);
+};
@@ -0,0 +1,103 @@
+import type { Process, RealTimeTask, RealTimeReport, SchedulabilityVerdict, TimeMarker, AlgorithmResult } from '../types';
+import { DEFAULT_GROUP } from '../constants';
+
+// Longest horizon a real-time run may cover, so tasks with co-prime periods cannot
+// produce a hyperperiod of millions of time units.
+export const MAX_HORIZON = 1000;
+
+const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+
+// Least common multiple of all periods, capped at MAX_HORIZON.
+export const hyperperiodOf = (tasks: RealTimeTask[]): number => {
+  const lcm = tasks.reduce((acc, t) => acc / gcd(acc, t.period) * t.period, 1);
+  return Math.min(lcm, MAX_HORIZON);
+};
+
+// Releases one job per period for every task, over [0, horizon). Each job is an ordinary
+// process whose arrival is its release time and whose deadline is absolute.
+export const expandJobs = (tasks: RealTimeTask[], horizon: number): Process[] => {
+  const jobs: Process[] = [];
+  tasks.forEach(task => {
+    for (let release = 0, k = 1; release < horizon; release += task.period, k++) {
+      jobs.push({
+        id: 0,
+        name: `${task.name}.${k}`,
+        arrivalTime: release,
+        burstTime: task.executionTime,
+        priority: null,
+        tickets: 1,
+        nice: 0,
+        queueClass: 'system',
+        group: DEFAULT_GROUP,
+        remainingTime: task.executionTime,
+        color: task.color,
+        completionTime: 0,
+        turnaroundTime: 0,
+        waitingTime: 0,
+        state: 'not arrived',
+        period: task.period,
+        deadline: release + task.deadline,
+      });
+    }
+  });
+  return jobs
+    .sort((a, b) => a.arrivalTime - b.arrivalTime || a.period! - b.period!)
+    .map((job, i) => ({ ...job, id: i + 1 }));
+};
+
+const utilizationOf = (tasks: RealTimeTask[]): number => tasks.reduce((acc, t) => acc + t.executionTime / t.period, 0);
+
+// EDF is exact at U <= 1 when every deadline equals (or exceeds) its period; with shorter
+// deadlines the density test sum(C / min(D, T)) <= 1 is only sufficient.
+const edfVerdict = (tasks: RealTimeTask[], utilization: number): SchedulabilityVerdict => {
+  if (utilization > 1) return 'not schedulable';
+  if (tasks.every(t => t.deadline >= t.period)) return 'schedulable';
+  const density = tasks.reduce((acc, t) => acc + t.executionTime / Math.min(t.deadline, t.period), 0);
+  return density <= 1 ? 'schedulable' : 'inconclusive';
+};
+
+// Liu & Layland: U <= n(2^(1/n) - 1) guarantees RM schedulability for implicit deadlines.
+// Above the bound (but at most 1) the test says nothing either way.
+const rmBound = (n: number): number => n * (Math.pow(2, 1 / n) - 1);
+
+const rmVerdict = (tasks: RealTimeTask[], utilization: number): SchedulabilityVerdict => {
+  if (utilization > 1) return 'not schedulable';
+  if (utilization <= rmBound(tasks.length) && tasks.every(t => t.deadline >= t.period)) return 'schedulable';
+  return 'inconclusive';
+};
+
+export const buildRealTimeReport = (
+  result: AlgorithmResult,
+  tasks: RealTimeTask[],
+  horizon: number,
+  test: 'EDF' | 'RM',
+): RealTimeReport => {
+  const utilization = utilizationOf(tasks);
+  const lateness = result.processes.map(job => job.completionTime - job.deadline!);
+  return {
+    horizon,
+    utilization,
+    utilizationBound: test === 'EDF' ? 1 : rmBound(tasks.length),
+    verdict: test === 'EDF' ? edfVerdict(tasks, utilization) : rmVerdict(tasks, utilization),
+    deadlineMisses: lateness.filter(l => l > 0).length,
+    maxLateness: lateness.length > 0 ? Math.max(...lateness) : 0,
+  };
+};
+
+// Gantt markers for job releases and for deadlines that have passed with the job unfinished
+// (or finished late). `time` limits the markers to what a live run has reached so far.
+export const buildDeadlineMarkers = (jobs: Process[], time: number = Infinity): TimeMarker[] => {
+  const markers: TimeMarker[] = [];
+  jobs.forEach(job => {
+    if (job.deadline === undefined) return;
+    if (job.arrivalTime <= time) {
+      markers.push({ time: job.arrivalTime, kind: 'release', label: `${job.name} released` });
+    }
+    const finishedLate = job.state === 'completed' && job.completionTime > job.deadline;
+    const overdue = job.state !== 'completed' && job.deadline <= time;
+    if (job.deadline <= time && (finishedLate || overdue)) {
+      markers.push({ time: job.deadline, kind: 'deadline-miss', label: `${job.name} missed its deadline` });
+    }
+  });
+  return markers;
+};
@@ -1,802 +1,721 @@
-import type { Process, AlgorithmResult, GanttEntry } from '../types';
+import type { Process, AlgorithmResult, SimulationStep, MlfqConfig, MultilevelQueueConfig, QueueClass, AgingConfig, ProportionalShareConfig, CfsConfig, FairShareConfig, RoundRobinConfig, PredictionConfig, RealTimeTask, MachineConfig, AlgorithmSettings } from '../types';
+import { QUEUE_CLASSES, NICE_0_WEIGHT, niceToWeight } from '../constants';
+import { createRandom } from './random';
+import { currentCpuBurst, remainingCpuBurst } from './bursts';
+import { expandJobs, buildRealTimeReport } from './realTime';
+import { initialEstimate, nextEstimate, buildPredictionReport } from './prediction';
+import { schedule, runToCompletion, pickMin, roundTime, type SchedulingPolicy } from './schedulingEngine';
+
+// Each algorithm is written once, as a SchedulingPolicy. The batch `runX` functions used by
+// "Compare All" and the `simulateX` generators used by the live dashboard both drive the
+// same engine, so the two views can never disagree.
+
+// --- POLICIES ---
+
+export const fcfsPolicy: SchedulingPolicy = {
+  name: 'First-Come, First-Served (FCFS)',
+  select: readyQueue => readyQueue[0],
+};
+
+export const sjfPolicy: SchedulingPolicy = {
+  name: 'Non-Preemptive SJF',
+  select: readyQueue => pickMin(readyQueue, currentCpuBurst),
+  selectionReason: 'shortest job',
+};
+
+// Highest Response Ratio Next: ratio = (waiting time + burst) / burst, so a long job's ratio
+// keeps growing while it waits and it cannot be starved the way it can under SJF.
+const responseRatio = (p: Process, time: number): number => (time - p.arrivalTime + p.burstTime) / p.burstTime;
+
+export const hrrnPolicy: SchedulingPolicy = {
+  name: 'Highest Response Ratio Next (HRRN)',
+  select: (readyQueue, time) => pickMin(readyQueue, p => -responseRatio(p, time)),
+  selectionReason: 'highest response ratio',
+  describeSelection: (readyQueue, _selected, time) =>
+    `Response ratios: ${readyQueue.map(p => `${p.name} = ${responseRatio(p, time).toFixed(2)}`).join(', ')}.`,
+};
 
-// Helper to deep clone processes to ensure each algorithm runs on a fresh dataset
-const cloneProcesses = (processes: Process[]): Process[] => {
-  return JSON.parse(JSON.stringify(processes));
+export const srtfPolicy: SchedulingPolicy = {
+  name: 'Preemptive SJF (SRTF)',
+  select: readyQueue => pickMin(readyQueue, remainingCpuBurst),
+  shouldPreempt: (running, candidate) => remainingCpuBurst(candidate) < remainingCpuBurst(running),
+  preemptionReason: 'shorter remaining time',
 };
 
-// Helper for empty process list case
-const createEmptyResult = (name: string): AlgorithmResult => ({
-  name,
-  ganttChart: [],
-  processes: [],
-  avgWaitingTime: 0,
-  avgTurnaroundTime: 0,
-  totalTime: 0,
+// Predicted SJF and SRTF do not know burst lengths in advance. They rank processes by an estimate
+// τ of the current CPU burst (see services/prediction.ts), refined each time a CPU burst ends;
+// predicted SRTF ranks by the estimate minus the time the burst has run so far.
+const createPredictionHooks = (config: PredictionConfig): Pick<SchedulingPolicy, 'describeSelection' | 'onTick' | 'onRun'> => ({
+  describeSelection: readyQueue =>
+    `Predicted bursts: ${readyQueue.map(p => `${p.name} τ = ${p.predictedBurst!.toFixed(2)}`).join(', ')}.`,
+  onTick: (_time, active) => {
+    active.forEach(p => { if (p.predictedBurst === undefined) p.predictedBurst = initialEstimate(config, p); });
+  },
+  // Once a CPU burst ends its actual length is known; the last burst needs no successor.
+  onRun: p => {
+    if (remainingCpuBurst(p) > 0 || p.remainingTime <= 0) return;
+    p.predictedBurst = nextEstimate(config, p.predictedBurst!, currentCpuBurst(p));
+  },
 });
 
-// Helper to build a compressed Gantt chart from a timeline
-const buildGanttChart = (timeline: ({ processName: string, color: string } | null)[]): GanttEntry[] => {
-  if (!timeline || timeline.length === 0) return [];
+const predictedRemaining = (p: Process): number =>
+  Math.max(0, p.predictedBurst! - (currentCpuBurst(p) - remainingCpuBurst(p)));
 
-  const ganttChart: GanttEntry[] = [];
-  let currentEntry: GanttEntry | null = null;
+const describePrediction = ({ alpha, initialTau }: PredictionConfig): string => `α=${alpha}, τ₀=${initialTau}`;
 
-  for (let i = 0; i < timeline.length; i++) {
-    const currentProcessInfo = timeline[i];
+export const createPredictedSjfPolicy = (config: PredictionConfig): SchedulingPolicy => ({
+  name: `Predicted SJF (${describePrediction(config)})`,
+  select: readyQueue => pickMin(readyQueue, p => p.predictedBurst!),
+  selectionReason: 'shortest predicted burst',
+  ...createPredictionHooks(config),
+});
 
-    if (currentProcessInfo) {
-      if (currentEntry && currentEntry.processName === currentProcessInfo.processName) {
-        // Extend the current segment
-        currentEntry.end = i + 1;
-      } else {
-        // A new process is starting, push the old one if it exists
-        if (currentEntry) {
-          ganttChart.push(currentEntry);
-        }
-        // Start a new segment
-        currentEntry = {
-          processName: currentProcessInfo.processName,
-          color: currentProcessInfo.color,
-          start: i,
-          end: i + 1,
-        };
-      }
-    } else {
-      // Idle time, end the current segment
-      if (currentEntry) {
-        ganttChart.push(currentEntry);
-        currentEntry = null;
-      }
-    }
-  }
+export const createPredictedSrtfPolicy = (config: PredictionConfig): SchedulingPolicy => ({
+  name: `Predicted SRTF (${describePrediction(config)})`,
+  select: readyQueue => pickMin(readyQueue, predictedRemaining),
+  shouldPreempt: (running, candidate) => predictedRemaining(candidate) < predictedRemaining(running),
+  preemptionReason: 'shorter predicted remaining time',
+  ...createPredictionHooks(config),
+});
 
-  // Add the last segment if the timeline didn't end with idle time
-  if (currentEntry) {
-    ganttChart.push(currentEntry);
-  }
+// Longest Job First and Longest Remaining Time First are the "worst case" mirrors of SJF and
+// SRTF: short jobs queue up behind long ones, which shows off the convoy effect.
+export const ljfPolicy: SchedulingPolicy = {
+  name: 'Non-Preemptive LJF',
+  select: readyQueue => pickMin(readyQueue, p => -currentCpuBurst(p)),
+  selectionReason: 'longest job',
+};
 
-  return ganttChart;
+export const lrtfPolicy: SchedulingPolicy = {
+  name: 'Preemptive LJF (LRTF)',
+  select: readyQueue => pickMin(readyQueue, p => -remainingCpuBurst(p)),
+  shouldPreempt: (running, candidate) => remainingCpuBurst(candidate) > remainingCpuBurst(running),
+  preemptionReason: (_running, candidate, time) =>
+    candidate.arrivalTime === time ? 'a longer job arrived' : 'longer remaining time',
+  // Unlike under SRTF, the running process can fall behind a waiting one just by running. Stop
+  // when it catches up with the longest waiting process, and one unit later while they are tied.
+  nextEventTime: (time, active) => {
+    const longestWaiting = Math.max(...active.filter(p => p.state === 'waiting').map(remainingCpuBurst));
+    return Math.min(...active.filter(p => p.state === 'running').map(p => {
+      const lead = remainingCpuBurst(p) - longestWaiting;
+      return lead > 0 ? time + lead : time + 1;
+    }));
+  },
 };
 
+// Round Robin. The queue order decides where a process whose quantum expired rejoins the queue
+// relative to processes arriving at that moment; the quantum mode decides how long each turn is.
+// The rule in force is logged when the run starts and named in the result title.
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
 
-// --- BATCH ALGORITHMS FOR "COMPARE ALL" ---
+const mean = (values: number[]): number => values.reduce((acc, v) => acc + v, 0) / values.length;
 
-export const runFCFS = (processes: Process[]): AlgorithmResult => {
-  if (processes.length === 0) return createEmptyResult('First-Come, First-Served (FCFS)');
-  const localProcesses = cloneProcesses(processes).sort((a, b) => a.arrivalTime - b.arrivalTime || a.id - b.id);
-  let currentTime = 0;
-  const timeline: ({ processName: string, color: string } | null)[] = [];
-
-  localProcesses.forEach(p => {
-    if (currentTime < p.arrivalTime) {
-      const idleTime = p.arrivalTime - currentTime;
-      for(let i=0; i<idleTime; i++) timeline.push(null);
-      currentTime = p.arrivalTime;
-    }
-    p.completionTime = currentTime + p.burstTime;
-    p.turnaroundTime = p.completionTime - p.arrivalTime;
-    p.waitingTime = p.turnaroundTime - p.burstTime;
-    for (let i = 0; i < p.burstTime; i++) {
-        timeline.push({ processName: p.name, color: p.color });
-    }
-    currentTime = p.completionTime;
-  });
+const priorityQuantumOf = (priorityQuanta: number[], p: Process): number =>
+  priorityQuanta[Math.min(p.priority ?? Infinity, priorityQuanta.length - 1)];
 
-  const totalWaitingTime = localProcesses.reduce((acc, p) => acc + p.waitingTime, 0);
-  const totalTurnaroundTime = localProcesses.reduce((acc, p) => acc + p.turnaroundTime, 0);
+export const roundRobinName = ({ timeQuantum, queueOrder, quantumMode, priorityQuanta }: RoundRobinConfig): string => {
+  const order = queueOrder === 'arrivals-first' ? 'arrivals first' : 'preempted first';
+  switch (quantumMode) {
+    case 'fixed': return `Round Robin (q=${timeQuantum}, ${order})`;
+    case 'dynamic-mean': return `Round Robin (mean-burst quantum, ${order})`;
+    case 'dynamic-median': return `Round Robin (median-burst quantum, ${order})`;
+    case 'per-priority': return `Round Robin (q=${priorityQuanta.join('/')} by priority, ${order})`;
+    case 'virtual': return `Virtual Round Robin (q=${timeQuantum}, ${order})`;
+  }
+};
+
+const describeRoundRobinRule = ({ timeQuantum, queueOrder, quantumMode, priorityQuanta }: RoundRobinConfig): string => {
+  const order = queueOrder === 'arrivals-first'
+    ? 'a process whose quantum expires rejoins the queue behind processes arriving at the same moment'
+    : 'a process whose quantum expires rejoins the queue ahead of processes arriving at the same moment';
+  const quantum = {
+    'fixed': `every turn lasts ${timeQuantum}`,
+    'dynamic-mean': 'each turn lasts the mean remaining burst of the processes in the system',
+    'dynamic-median': 'each turn lasts the median remaining burst of the processes in the system',
+    'per-priority': `turns last ${priorityQuanta.map((q, level) => `${q} at priority ${level}${level === priorityQuanta.length - 1 ? '+' : ''}`).join(', ')}`,
+    'virtual': `every turn lasts ${timeQuantum}, and processes back from I/O are served first from an auxiliary queue for the rest of their quantum`,
+  }[quantumMode];
+  return `Rule: ${order}; ${quantum}.`;
+};
+
+export const createRoundRobinPolicy = (config: RoundRobinConfig): SchedulingPolicy => {
+  const { timeQuantum, queueOrder, quantumMode, priorityQuanta } = config;
+  let active: Process[] = [];
+  let announced = false;
+  // Virtual Round Robin: what is left of the quantum of each process in the auxiliary queue, and
+  // how long each process has run since it was last dispatched from the main queue.
+  const auxiliary = new Map<number, number>();
+  const usedSinceMain = new Map<number, number>();
+
+  const dynamicQuantum = (): number =>
+    roundTime((quantumMode === 'dynamic-mean' ? mean : median)(active.map(remainingCpuBurst)));
+
+  const quantumFor = (p: Process): number => {
+    switch (quantumMode) {
+      case 'dynamic-mean':
+      case 'dynamic-median': return dynamicQuantum();
+      case 'per-priority': return priorityQuantumOf(priorityQuanta, p);
+      case 'virtual': return auxiliary.get(p.id) ?? timeQuantum;
+      case 'fixed': return timeQuantum;
+    }
+  };
 
   return {
-    name: 'First-Come, First-Served (FCFS)',
-    ganttChart: buildGanttChart(timeline),
-    processes: localProcesses,
-    avgWaitingTime: totalWaitingTime / localProcesses.length,
-    avgTurnaroundTime: totalTurnaroundTime / localProcesses.length,
-    totalTime: currentTime,
+    name: roundRobinName(config),
+    select: readyQueue => readyQueue.find(p => auxiliary.has(p.id)) ?? readyQueue[0],
+    selectionReason: 'front of queue',
+    describeSelection: (_readyQueue, selected) => {
+      if (auxiliary.has(selected.id)) return `${selected.name} comes from the auxiliary queue with ${auxiliary.get(selected.id)} of its quantum left.`;
+      if (quantumMode === 'dynamic-mean' || quantumMode === 'dynamic-median') {
+        return `Quantum = ${quantumMode === 'dynamic-mean' ? 'mean' : 'median'} of remaining bursts (${active.map(p => `${p.name} = ${remainingCpuBurst(p)}`).join(', ')}) = ${dynamicQuantum()}.`;
+      }
+      if (quantumMode === 'per-priority') return `${selected.name} has priority ${selected.priority ?? 'N/A'}: quantum ${quantumFor(selected)}.`;
+      return '';
+    },
+    timeQuantum: quantumFor,
+    requeueAfterArrivals: queueOrder === 'arrivals-first',
+    onTick: (_time, processes) => {
+      active = processes;
+      if (announced) return;
+      announced = true;
+      return describeRoundRobinRule(config);
+    },
+    ...(quantumMode === 'virtual' && {
+      onDispatch: (p: Process) => { if (!auxiliary.delete(p.id)) usedSinceMain.set(p.id, 0); },
+      onRun: (p: Process, _time: number, duration: number) => {
+        usedSinceMain.set(p.id, roundTime((usedSinceMain.get(p.id) ?? 0) + duration));
+      },
+      onWake: (p: Process) => {
+        const left = roundTime(timeQuantum - (usedSinceMain.get(p.id) ?? 0));
+        if (left <= 0) return;
+        auxiliary.set(p.id, left);
+        return `${p.name} joins the auxiliary queue with ${left} of its quantum left.`;
+      },
+      groupReadyQueue: (readyQueue: Process[]) => [
+        { label: 'Auxiliary (back from I/O)', processes: readyQueue.filter(p => auxiliary.has(p.id)) },
+        { label: 'Main', processes: readyQueue.filter(p => !auxiliary.has(p.id)) },
+      ],
+    }),
   };
 };
 
-export const runSJF = (processes: Process[]): AlgorithmResult => {
-  if (processes.length === 0) return createEmptyResult('Non-Preemptive SJF');
-  const localProcesses = cloneProcesses(processes);
-  let currentTime = 0;
-  let completed = 0;
-  const n = localProcesses.length;
-  const timeline: ({ processName: string, color: string } | null)[] = [];
-  const completedProcessIds = new Set<number>();
-
-  while (completed < n) {
-    let shortestJob: Process | null = null;
-
-    // Find all ready processes
-    const readyQueue = localProcesses.filter(p => p.arrivalTime <= currentTime && !completedProcessIds.has(p.id));
-
-    if (readyQueue.length > 0) {
-        // Find the shortest job among them
-        shortestJob = readyQueue.reduce((prev, curr) => {
-            if (prev.burstTime < curr.burstTime) return prev;
-            if (prev.burstTime > curr.burstTime) return curr;
-            // Tie-break with arrival time
-            return prev.arrivalTime < curr.arrivalTime ? prev : curr;
-        });
-    }
+// Lower number = higher priority. Processes without a priority run last.
+const priorityOf = (p: Process): number => p.priority ?? Infinity;
 
-    if (shortestJob === null) {
-      timeline.push(null);
-      currentTime++;
-      continue;
-    }
+export const priorityNonPreemptivePolicy: SchedulingPolicy = {
+  name: 'Non-Preemptive Priority',
+  select: readyQueue => pickMin(readyQueue, priorityOf),
+  selectionReason: 'highest priority',
+};
 
-    const currentProcess = shortestJob;
-    
-    // **FIXED**: Advance time to the process's arrival if CPU was idle
-    if(currentTime < currentProcess.arrivalTime) {
-        const idleTime = currentProcess.arrivalTime - currentTime;
-        for(let i=0; i<idleTime; i++) timeline.push(null);
-        currentTime = currentProcess.arrivalTime;
-    }
+export const priorityPreemptivePolicy: SchedulingPolicy = {
+  name: 'Preemptive Priority',
+  select: readyQueue => pickMin(readyQueue, priorityOf),
+  shouldPreempt: (running, candidate) => priorityOf(candidate) < priorityOf(running),
+  preemptionReason: 'higher priority',
+};
 
-    // Execute the process to completion
-    for (let i = 0; i < currentProcess.burstTime; i++) {
-        timeline.push({ processName: currentProcess.name, color: currentProcess.color });
+// Priority scheduling with aging. Every `interval` time units a process spends waiting in the
+// ready queue lowers its effective priority number by `step`; it keeps the aged priority once
+// it runs. The effective priority is written onto the process so the live table can show it.
+// A wait is counted from the moment the process last joined the ready queue, so time spent
+// running or blocked on I/O does not count. Bump times are per-run state, so a fresh policy is
+// created for every simulation.
+const withAging = (base: SchedulingPolicy, { interval, step }: AgingConfig): SchedulingPolicy => {
+  const effectiveOf = (p: Process): number => p.effectivePriority ?? priorityOf(p);
+  // Priority 0 is the highest; a process without a priority stays last.
+  const canAge = (p: Process): boolean => p.state === 'waiting' && effectiveOf(p) > 0 && effectiveOf(p) !== Infinity;
+  // When each process's next bump is due, for the wait that began at `queuedAt`.
+  const bumps = new Map<number, { queuedAt: number, due: number }>();
+  const bumpOf = (p: Process) => {
+    let bump = bumps.get(p.id);
+    if (!bump || bump.queuedAt !== p.queuedAt) {
+      bump = { queuedAt: p.queuedAt!, due: roundTime(p.queuedAt! + interval) };
+      bumps.set(p.id, bump);
     }
-    
-    const executionEndTime = currentTime + currentProcess.burstTime;
-    currentProcess.completionTime = executionEndTime;
-    currentProcess.turnaroundTime = currentProcess.completionTime - currentProcess.arrivalTime;
-    currentProcess.waitingTime = currentProcess.turnaroundTime - currentProcess.burstTime;
-    
-    completedProcessIds.add(currentProcess.id);
-    completed++;
-    currentTime = executionEndTime;
-  }
-
-  const totalWaitingTime = localProcesses.reduce((acc, p) => acc + p.waitingTime, 0);
-  const totalTurnaroundTime = localProcesses.reduce((acc, p) => acc + p.turnaroundTime, 0);
+    return bump;
+  };
 
   return {
-    name: 'Non-Preemptive SJF',
-    ganttChart: buildGanttChart(timeline),
-    processes: localProcesses,
-    avgWaitingTime: totalWaitingTime / n,
-    avgTurnaroundTime: totalTurnaroundTime / n,
-    totalTime: currentTime,
+    ...base,
+    name: `${base.name} (Aging)`,
+    select: readyQueue => pickMin(readyQueue, effectiveOf),
+    shouldPreempt: base.shouldPreempt && ((running, candidate) => effectiveOf(candidate) < effectiveOf(running)),
+    onTick: (time, active) => {
+      const aged: string[] = [];
+      active.forEach(p => {
+        if (p.effectivePriority === undefined) p.effectivePriority = priorityOf(p);
+        if (!canAge(p)) return;
+        const bump = bumpOf(p);
+        if (time < bump.due) return;
+        bump.due = roundTime(bump.due + interval);
+        const before = p.effectivePriority;
+        p.effectivePriority = Math.max(0, before - step);
+        aged.push(`${p.name} ${before} → ${p.effectivePriority}`);
+      });
+      if (aged.length > 0) return `Aging: ${aged.join(', ')} after waiting ${interval} units.`;
+    },
+    // The next time a waiting process that can still age completes another full interval.
+    nextEventTime: (_time, active) => {
+      const candidates = active.filter(canAge);
+      if (candidates.length === 0) return undefined;
+      return Math.min(...candidates.map(p => bumpOf(p).due));
+    },
   };
 };
 
-export const runSRTF = (processes: Process[]): AlgorithmResult => {
-  if (processes.length === 0) return createEmptyResult('Preemptive SJF (SRTF)');
-  const localProcesses = cloneProcesses(processes);
-  let currentTime = 0;
-  let completed = 0;
-  const n = localProcesses.length;
-  const timeline: ({ processName: string, color: string } | null)[] = [];
-
-  while (completed !== n) {
-    let shortestJobIndex = -1;
-    let minRemainingTime = Infinity;
-    let minArrivalTime = Infinity;
-
-    // Find shortest remaining time. Tie-break with arrival time.
-    localProcesses.forEach((p, i) => {
-      if (p.arrivalTime <= currentTime && p.remainingTime > 0) {
-        if (p.remainingTime < minRemainingTime) {
-          minRemainingTime = p.remainingTime;
-          minArrivalTime = p.arrivalTime;
-          shortestJobIndex = i;
-        } else if (p.remainingTime === minRemainingTime) {
-          if (p.arrivalTime < minArrivalTime) {
-            minArrivalTime = p.arrivalTime;
-            shortestJobIndex = i;
-          }
-        }
-      }
-    });
+export const createPriorityNonPreemptivePolicy = (aging?: AgingConfig): SchedulingPolicy =>
+  aging?.enabled ? withAging(priorityNonPreemptivePolicy, aging) : priorityNonPreemptivePolicy;
 
-    if (shortestJobIndex === -1) {
-      timeline.push(null);
-      currentTime++;
-      continue;
-    }
-
-    const currentProcess = localProcesses[shortestJobIndex];
-    timeline.push({ processName: currentProcess.name, color: currentProcess.color });
-    currentProcess.remainingTime--;
-    currentTime++;
-
-    if (currentProcess.remainingTime === 0) {
-      completed++;
-      currentProcess.completionTime = currentTime;
-      currentProcess.turnaroundTime = currentProcess.completionTime - currentProcess.arrivalTime;
-      currentProcess.waitingTime = currentProcess.turnaroundTime - currentProcess.burstTime;
-    }
-  }
+export const createPriorityPreemptivePolicy = (aging?: AgingConfig): SchedulingPolicy =>
+  aging?.enabled ? withAging(priorityPreemptivePolicy, aging) : priorityPreemptivePolicy;
 
-  const totalWaitingTime = localProcesses.reduce((acc, p) => acc + p.waitingTime, 0);
-  const totalTurnaroundTime = localProcesses.reduce((acc, p) => acc + p.turnaroundTime, 0);
+// Multilevel Feedback Queue. Every process starts in Q1; using a full quantum demotes it one
+// level, and a periodic boost moves everything back to Q1. Within a level processes are served
+// in queue order, and a process in a higher queue preempts one running from a lower queue.
+// Queue levels are per-run state, so a fresh policy is created for every simulation.
+export const createMlfqPolicy = ({ quanta, boostInterval }: MlfqConfig): SchedulingPolicy => {
+  const levels = new Map<number, number>();
+  let nextBoost = boostInterval;
+  const levelOf = (p: Process): number => levels.get(p.id) ?? 0;
+  const lowestLevel = quanta.length - 1;
 
   return {
-    name: 'Preemptive SJF (SRTF)',
-    ganttChart: buildGanttChart(timeline),
-    processes: localProcesses,
-    avgWaitingTime: totalWaitingTime / n,
-    avgTurnaroundTime: totalTurnaroundTime / n,
-    totalTime: currentTime,
+    name: `Multilevel Feedback Queue (${quanta.length} levels)`,
+    select: readyQueue => {
+      const topLevel = Math.min(...readyQueue.map(levelOf));
+      return readyQueue.find(p => levelOf(p) === topLevel)!;
+    },
+    timeQuantum: p => quanta[levelOf(p)],
+    shouldPreempt: (running, candidate) => levelOf(candidate) < levelOf(running),
+    preemptionReason: 'higher queue',
+    onQuantumExpired: p => {
+      const level = levelOf(p);
+      if (level === lowestLevel) return `${p.name} stays in Q${level + 1} (lowest queue).`;
+      levels.set(p.id, level + 1);
+      return `${p.name} used its full quantum and is demoted to Q${level + 2}.`;
+    },
+    onTick: (time, active) => {
+      if (boostInterval <= 0 || time < nextBoost) return;
+      nextBoost = roundTime(nextBoost + boostInterval);
+      const boosted = active.filter(p => levelOf(p) > 0);
+      levels.clear();
+      if (boosted.length > 0) {
+        return `Priority boost at time ${time}: ${boosted.map(p => p.name).join(', ')} move${boosted.length > 1 ? '' : 's'} back to Q1.`;
+      }
+    },
+    nextEventTime: () => boostInterval > 0 ? nextBoost : undefined,
+    groupReadyQueue: readyQueue => quanta.map((quantum, level) => ({
+      label: `Q${level + 1} (q=${quantum})`,
+      processes: readyQueue.filter(p => levelOf(p) === level),
+    })),
   };
 };
 
-export const runRoundRobin = (processes: Process[], timeQuantum: number): AlgorithmResult => {
-    if (processes.length === 0) return createEmptyResult('Round Robin');
-
-    const localProcesses = cloneProcesses(processes);
-    const n = localProcesses.length;
-    const readyQueue: Process[] = [];
-    const timeline: ({ processName: string, color: string } | null)[] = [];
-    let currentTime = 0;
-    let completed = 0;
-    let runningProcess: Process | null = null;
-    let quantumCounter = 0;
-
-    while (completed < n) {
-        // Step 1: Check if the running process's quantum expired or if it finished.
-        // This happens BEFORE adding new processes to follow the standard model.
-        if (runningProcess) {
-            if (runningProcess.remainingTime === 0) {
-                runningProcess.completionTime = currentTime;
-                runningProcess.turnaroundTime = runningProcess.completionTime - runningProcess.arrivalTime;
-                runningProcess.waitingTime = runningProcess.turnaroundTime - runningProcess.burstTime;
-                completed++;
-                runningProcess = null;
-            } else if (quantumCounter === timeQuantum) {
-                readyQueue.push(runningProcess);
-                runningProcess = null;
-            }
-        }
+// Static Multilevel Queue. A process stays in the queue of its class for its whole life and
+// each queue orders its own processes with FCFS, SJF or RR. Fixed-priority arbitration always
+// serves the highest non-empty class and preempts lower ones; time-slice arbitration rotates
+// through the classes that have work, giving each its configured slice of CPU time.
+export const createMultilevelQueuePolicy = ({ arbitration, queues }: MultilevelQueueConfig): SchedulingPolicy => {
+  const rank = (queueClass: QueueClass): number => QUEUE_CLASSES.indexOf(queueClass);
+  let activeClass: QueueClass = QUEUE_CLASSES[0];
+  let sliceStart = 0;
+
+  // Classes in the order arbitration currently prefers them.
+  const classOrder = (): QueueClass[] => {
+    if (arbitration === 'fixed-priority') return QUEUE_CLASSES;
+    const start = rank(activeClass);
+    return QUEUE_CLASSES.map((_, i) => QUEUE_CLASSES[(start + i) % QUEUE_CLASSES.length]);
+  };
 
-        // Step 2: Add newly arrived processes to the ready queue.
-        localProcesses
-            .filter(p => p.arrivalTime === currentTime)
-            .sort((a, b) => a.id - b.id)
-            .forEach(p => readyQueue.push(p));
+  const selectWithin = (queueClass: QueueClass, readyQueue: Process[]): Process | undefined => {
+    const members = readyQueue.filter(p => p.queueClass === queueClass);
+    if (members.length === 0) return undefined;
+    return queues[queueClass].algorithm === 'SJF' ? pickMin(members, currentCpuBurst) : members[0];
+  };
 
-        // Step 3: If CPU is idle, select a new process.
-        if (!runningProcess && readyQueue.length > 0) {
-            runningProcess = readyQueue.shift()!;
-            quantumCounter = 0; // Reset quantum
-        }
+  const describeQueue = (queueClass: QueueClass): string => {
+    const { algorithm, timeQuantum } = queues[queueClass];
+    return algorithm === 'RR' ? `RR, q=${timeQuantum}` : algorithm;
+  };
 
-        // Step 4: Execute for one time unit.
-        if (runningProcess) {
-            timeline.push({ processName: runningProcess.name, color: runningProcess.color });
-            runningProcess.remainingTime--;
-            quantumCounter++;
-        } else {
-            timeline.push(null); // CPU is idle
-        }
+  return {
+    name: `Multilevel Queue (${arbitration === 'fixed-priority' ? 'Fixed Priority' : 'Time Slice'})`,
+    select: readyQueue => {
+      for (const queueClass of classOrder()) {
+        const next = selectWithin(queueClass, readyQueue);
+        if (next) return next;
+      }
+      return readyQueue[0];
+    },
+    timeQuantum: p => queues[p.queueClass].algorithm === 'RR' ? queues[p.queueClass].timeQuantum : Infinity,
+    shouldPreempt: (running, candidate) => arbitration === 'fixed-priority'
+      ? rank(candidate.queueClass) < rank(running.queueClass)
+      : running.queueClass !== activeClass && candidate.queueClass === activeClass,
+    preemptionReason: arbitration === 'fixed-priority' ? 'higher-priority queue' : 'time slice moves to its queue',
+    onTick: (time, active) => {
+      if (arbitration !== 'time-slice' || active.length === 0) return;
+      const hasWork = (queueClass: QueueClass) => active.some(p => p.queueClass === queueClass);
+      if (hasWork(activeClass) && roundTime(time - sliceStart) < queues[activeClass].timeSlice) return;
+
+      const next = classOrder().slice(1).find(hasWork);
+      sliceStart = time;
+      if (!next) return;
+      activeClass = next;
+      return `Time slice passes to the ${next} queue.`;
+    },
+    nextEventTime: () => arbitration === 'time-slice' ? sliceStart + queues[activeClass].timeSlice : Infinity,
+    groupReadyQueue: readyQueue => QUEUE_CLASSES.map(queueClass => ({
+      label: `${queueClass} (${describeQueue(queueClass)})`,
+      processes: readyQueue.filter(p => p.queueClass === queueClass),
+    })),
+  };
+};
 
-        // Step 5: Advance time.
-        currentTime++;
-        if (currentTime > 20000) { // Safety break
-             console.error("Breaking Round Robin loop, possible infinite loop detected.");
-             break; 
-        }
-    }
+// Lottery scheduling. At every decision the ready processes' tickets are numbered
+// consecutively in queue order and a seeded draw picks the winner, who runs for one quantum.
+export const createLotteryPolicy = ({ seed, quantum }: ProportionalShareConfig): SchedulingPolicy => {
+  const random = createRandom(seed);
+  let lastDraw = { ticket: 0, total: 0, first: 0 };
 
-    const totalWaitingTime = localProcesses.reduce((acc, p) => acc + p.waitingTime, 0);
-    const totalTurnaroundTime = localProcesses.reduce((acc, p) => acc + p.turnaroundTime, 0);
-
-    return {
-        name: 'Round Robin',
-        ganttChart: buildGanttChart(timeline),
-        processes: localProcesses,
-        avgWaitingTime: totalWaitingTime / n,
-        avgTurnaroundTime: totalTurnaroundTime / n,
-        totalTime: currentTime,
-    };
+  return {
+    name: `Lottery Scheduling (seed ${seed})`,
+    select: readyQueue => {
+      const total = readyQueue.reduce((acc, p) => acc + p.tickets, 0);
+      const ticket = Math.floor(random() * total);
+      let first = 0;
+      for (const p of readyQueue) {
+        if (ticket < first + p.tickets) {
+          lastDraw = { ticket, total, first };
+          return p;
+        }
+        first += p.tickets;
+      }
+      return readyQueue[readyQueue.length - 1];
+    },
+    selectionReason: 'lottery winner',
+    describeSelection: (_readyQueue, selected) => {
+      const { ticket, total, first } = lastDraw;
+      return `Lottery draw: ticket ${ticket} of ${total} wins (${selected.name} holds ${first}–${first + selected.tickets - 1}).`;
+    },
+    timeQuantum: () => quantum,
+    shareWeight: p => p.tickets,
+  };
 };
 
+// Stride scheduling, the deterministic counterpart of lottery scheduling. Each process has a
+// stride inversely proportional to its tickets; the process with the lowest pass runs for one
+// quantum and then advances its pass by its stride. Newcomers start at the lowest current pass.
+const STRIDE_CONSTANT = 10000;
+
+export const createStridePolicy = ({ quantum }: ProportionalShareConfig): SchedulingPolicy => {
+  const passes = new Map<number, number>();
+  const strideOf = (p: Process): number => STRIDE_CONSTANT / p.tickets;
+  const passOf = (p: Process): number => passes.get(p.id) ?? 0;
+  const lowestPass = (active: Process[]): number => {
+    const known = active.filter(p => passes.has(p.id));
+    return known.length > 0 ? Math.min(...known.map(passOf)) : 0;
+  };
 
-export const runPriorityNonPreemptive = (processes: Process[]): AlgorithmResult => {
-  if (processes.length === 0) return createEmptyResult('Non-Preemptive Priority');
-  const localProcesses = cloneProcesses(processes);
-  let currentTime = 0;
-  let completed = 0;
-  const n = localProcesses.length;
-  const timeline: ({ processName: string, color: string } | null)[] = [];
-  const completedProcessIds = new Set<number>();
-
-  while (completed < n) {
-    let highestPriorityProcess: Process | null = null;
-    
-    // Find all ready processes
-    const readyQueue = localProcesses.filter(p => p.arrivalTime <= currentTime && !completedProcessIds.has(p.id));
-
-    if (readyQueue.length > 0) {
-        // Find the highest priority job
-        highestPriorityProcess = readyQueue.reduce((prev, curr) => {
-            const prevPriority = prev.priority ?? Infinity;
-            const currPriority = curr.priority ?? Infinity;
-            if (prevPriority < currPriority) return prev;
-            if (prevPriority > currPriority) return curr;
-            return prev.arrivalTime < curr.arrivalTime ? prev : curr;
-        });
-    }
+  return {
+    name: 'Stride Scheduling',
+    select: readyQueue => pickMin(readyQueue, passOf),
+    selectionReason: 'lowest pass',
+    describeSelection: readyQueue =>
+      `Pass values: ${readyQueue.map(p => `${p.name} = ${Math.round(passOf(p))}`).join(', ')}.`,
+    onDispatch: p => { passes.set(p.id, passOf(p) + strideOf(p)); },
+    // A process back from I/O has not advanced its pass while blocked; it resumes no lower than
+    // the lowest pass in the system, so it cannot monopolise the CPU to catch up.
+    onWake: (p, _time, active) => { passes.set(p.id, Math.max(passOf(p), lowestPass(active))); },
+    onTick: (_time, active) => {
+      const floor = lowestPass(active);
+      active.forEach(p => { if (!passes.has(p.id)) passes.set(p.id, floor); });
+    },
+    timeQuantum: () => quantum,
+    shareWeight: p => p.tickets,
+  };
+};
 
-    if (highestPriorityProcess === null) {
-      timeline.push(null);
-      currentTime++;
-      continue;
-    }
-    
-    const currentProcess = highestPriorityProcess;
-    
-    // **FIXED**: Advance time to the process's arrival if CPU was idle
-    if (currentTime < currentProcess.arrivalTime) {
-        const idleTime = currentProcess.arrivalTime - currentTime;
-        for(let i=0; i<idleTime; i++) timeline.push(null);
-        currentTime = currentProcess.arrivalTime;
-    }
+// Completely Fair Scheduler, after Linux CFS. Each nice value maps to a load weight, and
+// running for one unit advances a process's virtual runtime by NICE_0_WEIGHT / weight, so
+// heavier processes age more slowly. The process with the smallest vruntime runs for a slice
+// of targetLatency * weight / total runnable weight, but never less than minGranularity.
+// Newcomers start at the smallest vruntime in the system instead of 0, so they cannot
+// monopolise the CPU while catching up. A process waking from I/O keeps its vruntime, but no
+// lower than half a target latency behind the smallest one, as Linux does for sleepers.
+export const createCfsPolicy = ({ targetLatency, minGranularity }: CfsConfig): SchedulingPolicy => {
+  const vruntimeOf = (p: Process): number => p.vruntime ?? 0;
+  const smallestVruntime = (active: Process[]): number => {
+    const known = active.filter(p => p.vruntime !== undefined);
+    return known.length > 0 ? Math.min(...known.map(vruntimeOf)) : 0;
+  };
+  let runnableWeight = NICE_0_WEIGHT;
 
-    for (let i = 0; i < currentProcess.burstTime; i++) {
-        timeline.push({ processName: currentProcess.name, color: currentProcess.color });
-    }
-    
-    const executionEndTime = currentTime + currentProcess.burstTime;
-    currentProcess.completionTime = executionEndTime;
-    currentProcess.turnaroundTime = currentProcess.completionTime - currentProcess.arrivalTime;
-    currentProcess.waitingTime = currentProcess.turnaroundTime - currentProcess.burstTime;
-    
-    completedProcessIds.add(currentProcess.id);
-    completed++;
-    currentTime = executionEndTime;
-  }
+  return {
+    name: 'Completely Fair Scheduler (CFS)',
+    select: readyQueue => pickMin(readyQueue, vruntimeOf),
+    selectionReason: 'smallest vruntime',
+    describeSelection: readyQueue =>
+      `vruntimes: ${readyQueue.map(p => `${p.name} = ${vruntimeOf(p).toFixed(2)}`).join(', ')}.`,
+    timeQuantum: p => Math.max(minGranularity, Math.round(targetLatency * niceToWeight(p.nice) / runnableWeight), 1),
+    onWake: (p, _time, active) => {
+      const floor = smallestVruntime(active) - targetLatency / 2;
+      if (vruntimeOf(p) >= floor) return;
+      p.vruntime = floor;
+      return `${p.name} wakes with vruntime raised to ${floor.toFixed(2)}.`;
+    },
+    onTick: (_time, active) => {
+      const minVruntime = smallestVruntime(active);
+      active.forEach(p => { if (p.vruntime === undefined) p.vruntime = minVruntime; });
+      runnableWeight = Math.max(1, active.reduce((acc, p) => acc + niceToWeight(p.nice), 0));
+    },
+    // Rounded so that equal amounts of running leave equal vruntimes, however they were split up.
+    onRun: (p, _time, duration) => { p.vruntime = roundTime(vruntimeOf(p) + duration * NICE_0_WEIGHT / niceToWeight(p.nice)); },
+    shareWeight: p => niceToWeight(p.nice),
+  };
+};
 
-  const totalWaitingTime = localProcesses.reduce((acc, p) => acc + p.waitingTime, 0);
-  const totalTurnaroundTime = localProcesses.reduce((acc, p) => acc + p.turnaroundTime, 0);
+// Fair-share scheduling. CPU time is divided between groups in proportion to their weights and
+// then evenly between the processes of each group, so a group cannot claim more of the CPU by
+// running more processes. The group with the least CPU time per unit of weight runs next, and
+// within it the process that has had the least CPU time, for one quantum. A group or process
+// that becomes runnable (on arrival or back from I/O) starts no lower than the least usage among
+// those already runnable, so it cannot monopolise the CPU while catching up.
+export const createFairSharePolicy = ({ quantum, groupWeights }: FairShareConfig): SchedulingPolicy => {
+  const weightOf = (group: string): number => groupWeights[group] ?? 1;
+  const groupUsage = new Map<string, number>();
+  const processUsage = new Map<number, number>();
+  const groupUsageOf = (group: string): number => groupUsage.get(group) ?? 0;
+  const usageOf = (p: Process): number => processUsage.get(p.id) ?? 0;
+  const groups = new Set<string>();
+  let runnable = new Set<number>();
 
   return {
-    name: 'Non-Preemptive Priority',
-    ganttChart: buildGanttChart(timeline),
-    processes: localProcesses,
-    avgWaitingTime: totalWaitingTime / n,
-    avgTurnaroundTime: totalTurnaroundTime / n,
-    totalTime: currentTime,
+    name: 'Fair-Share Scheduling',
+    select: readyQueue => {
+      const group = pickMin(readyQueue, p => groupUsageOf(p.group)).group;
+      return pickMin(readyQueue.filter(p => p.group === group), usageOf);
+    },
+    selectionReason: 'least-served group',
+    describeSelection: readyQueue =>
+      `CPU time per weight: ${[...new Set(readyQueue.map(p => p.group))].map(g => `group ${g} = ${groupUsageOf(g).toFixed(2)}`).join(', ')}.`,
+    onTick: (_time, active) => {
+      const stayed = active.filter(p => runnable.has(p.id));
+      const stayedGroups = new Set(stayed.map(p => p.group));
+      const groupFloor = Math.min(...[...stayedGroups].map(groupUsageOf));
+      active.filter(p => !runnable.has(p.id)).forEach(p => {
+        groups.add(p.group);
+        if (!stayedGroups.has(p.group) && stayedGroups.size > 0) {
+          groupUsage.set(p.group, Math.max(groupUsageOf(p.group), groupFloor));
+        }
+        const siblings = stayed.filter(s => s.group === p.group);
+        if (siblings.length > 0) processUsage.set(p.id, Math.max(usageOf(p), Math.min(...siblings.map(usageOf))));
+      });
+      runnable = new Set(active.map(p => p.id));
+    },
+    onRun: (p, _time, duration) => {
+      groupUsage.set(p.group, roundTime(groupUsageOf(p.group) + duration / weightOf(p.group)));
+      processUsage.set(p.id, roundTime(usageOf(p) + duration));
+    },
+    timeQuantum: () => quantum,
+    groupReadyQueue: readyQueue => [...groups].sort().map(group => ({
+      label: `Group ${group} (weight ${weightOf(group)})`,
+      processes: readyQueue.filter(p => p.group === group),
+    })),
   };
 };
 
-export const runPriorityPreemptive = (processes: Process[]): AlgorithmResult => {
-  if (processes.length === 0) return createEmptyResult('Preemptive Priority');
-  const localProcesses = cloneProcesses(processes);
-  let currentTime = 0;
-  let completed = 0;
-  const n = localProcesses.length;
-  const timeline: ({ processName: string, color: string } | null)[] = [];
-
-  while (completed !== n) {
-    let highestPriorityIndex = -1;
-    let minPriority = Infinity;
-    let minArrivalTime = Infinity;
-
-    localProcesses.forEach((p, i) => {
-      const pPriority = p.priority ?? Infinity;
-      if (p.arrivalTime <= currentTime && p.remainingTime > 0) {
-        if (pPriority < minPriority) {
-          minPriority = pPriority;
-          minArrivalTime = p.arrivalTime;
-          highestPriorityIndex = i;
-        } else if (pPriority === minPriority) {
-          if (p.arrivalTime < minArrivalTime) {
-            minArrivalTime = p.arrivalTime;
-            highestPriorityIndex = i;
-          }
-        }
-      }
-    });
+// Real-time policies for jobs released by periodic tasks (see services/realTime.ts). Both are
+// preemptive: EDF orders jobs by absolute deadline, Rate Monotonic by the fixed priority of
+// the task's period (shorter period first). A job still unfinished at its deadline is logged
+// as a miss but keeps running, so its lateness can be measured.
+const deadlineOf = (p: Process): number => p.deadline ?? Infinity;
+const periodOf = (p: Process): number => p.period ?? Infinity;
+
+const reportDeadlineMisses = (time: number, active: Process[]): string | void => {
+  const missed = active.filter(p => p.deadline === time);
+  if (missed.length === 0) return;
+  return `${missed.map(p => p.name).join(', ')} miss${missed.length > 1 ? '' : 'es'} the deadline at time ${time}.`;
+};
 
-    if (highestPriorityIndex === -1) {
-      timeline.push(null);
-      currentTime++;
-      continue;
-    }
+const nextDeadline = (time: number, active: Process[]): number =>
+  Math.min(Infinity, ...active.map(deadlineOf).filter(deadline => deadline > time));
+
+export const edfPolicy: SchedulingPolicy = {
+  name: 'Earliest Deadline First (EDF)',
+  select: readyQueue => pickMin(readyQueue, deadlineOf),
+  selectionReason: 'earliest deadline',
+  shouldPreempt: (running, candidate) => deadlineOf(candidate) < deadlineOf(running),
+  preemptionReason: 'earlier deadline',
+  onTick: reportDeadlineMisses,
+  nextEventTime: nextDeadline,
+};
 
-    const currentProcess = localProcesses[highestPriorityIndex];
-    timeline.push({ processName: currentProcess.name, color: currentProcess.color });
-    currentProcess.remainingTime--;
-    currentTime++;
+export const rateMonotonicPolicy: SchedulingPolicy = {
+  name: 'Rate Monotonic (RM)',
+  select: readyQueue => pickMin(readyQueue, periodOf),
+  selectionReason: 'shortest period',
+  shouldPreempt: (running, candidate) => periodOf(candidate) < periodOf(running),
+  preemptionReason: 'shorter period',
+  onTick: reportDeadlineMisses,
+  nextEventTime: nextDeadline,
+};
 
-    if (currentProcess.remainingTime === 0) {
-      completed++;
-      currentProcess.completionTime = currentTime;
-      currentProcess.turnaroundTime = currentProcess.completionTime - currentProcess.arrivalTime;
-      currentProcess.waitingTime = currentProcess.turnaroundTime - currentProcess.burstTime;
-    }
-  }
 
-  const totalWaitingTime = localProcesses.reduce((acc, p) => acc + p.waitingTime, 0);
-  const totalTurnaroundTime = localProcesses.reduce((acc, p) => acc + p.turnaroundTime, 0);
+// --- STEP-BY-STEP SIMULATION ALGORITHMS (GENERATORS) ---
+// Every algorithm takes an optional MachineConfig; without one it runs on a single CPU.
 
-  return {
-    name: 'Preemptive Priority',
-    ganttChart: buildGanttChart(timeline),
-    processes: localProcesses,
-    avgWaitingTime: totalWaitingTime / n,
-    avgTurnaroundTime: totalTurnaroundTime / n,
-    totalTime: currentTime,
-  };
-};
+type Simulation = Generator<SimulationStep, AlgorithmResult>;
 
+export const simulateFCFS = (processes: Process[], machine?: MachineConfig): Simulation =>
+  schedule(fcfsPolicy, processes, machine);
 
-// --- STEP-BY-STEP SIMULATION ALGORITHMS (GENERATORS) ---
-// Note: The simulation generators are more complex and appear to handle time tick-by-tick correctly.
-// The primary logic fixes were in the "batch" algorithms above. The generators below remain unchanged.
-
-const updateProcessStates = (processes: Process[], runningProcess: Process | null, readyQueue: Process[], currentTime: number) => {
-    return processes.map(p => {
-        if (p.state === 'completed') return p;
-        if (p.id === runningProcess?.id) {
-            return { ...p, state: 'running' as const };
-        }
-        if (readyQueue.some(rq => rq.id === p.id)) {
-            return { ...p, state: 'waiting' as const };
-        }
-        if (p.arrivalTime > currentTime) {
-            return { ...p, state: 'not arrived' as const };
-        }
-        // If it has arrived but is not running or in queue, it must be waiting
-        if (p.remainingTime > 0) {
-           return { ...p, state: 'waiting' as const };
-        }
-        return p;
-    });
-}
+export const simulateSJF = (processes: Process[], machine?: MachineConfig): Simulation =>
+  schedule(sjfPolicy, processes, machine);
 
-export function* simulateFCFS(processes: Process[]) {
-  if (processes.length === 0) return;
-  const localProcesses = cloneProcesses(processes).sort((a, b) => a.arrivalTime - b.arrivalTime || a.id - b.id);
-  let currentTime = 0;
-  let completed = 0;
-  const n = localProcesses.length;
-  const queue = [...localProcesses];
-
-  while (completed < n) {
-      if (queue.length === 0) break;
-      const currentProcess = queue[0];
-      
-      while (currentTime < currentProcess.arrivalTime) {
-          const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-          yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage: "CPU is idle." };
-          currentTime++;
-      }
-      
-      let eventMessage = `${currentProcess.name} arrives. CPU starts running ${currentProcess.name}.`;
-
-      const runDuration = currentProcess.burstTime;
-      for (let i = 0; i < runDuration; i++) {
-          currentProcess.remainingTime--;
-          const updatedProcesses = updateProcessStates(localProcesses, currentProcess, queue.slice(1), currentTime);
-          yield { time: currentTime, runningProcess: currentProcess, readyQueue: queue.slice(1), processes: updatedProcesses, eventMessage };
-          eventMessage = "";
-          currentTime++;
-      }
+export const simulateHRRN = (processes: Process[], machine?: MachineConfig): Simulation =>
+  schedule(hrrnPolicy, processes, machine);
 
-      currentProcess.completionTime = currentTime;
-      currentProcess.turnaroundTime = currentProcess.completionTime - currentProcess.arrivalTime;
-      currentProcess.waitingTime = currentProcess.turnaroundTime - currentProcess.burstTime;
-      currentProcess.state = 'completed';
-      completed++;
-      queue.shift();
-      const updatedProcesses = updateProcessStates(localProcesses, null, queue, currentTime -1);
-      yield { time: currentTime -1, runningProcess: currentProcess, readyQueue: [], processes: updatedProcesses, eventMessage: `${currentProcess.name} completes execution.` };
-  }
+export const simulateSRTF = (processes: Process[], machine?: MachineConfig): Simulation =>
+  schedule(srtfPolicy, processes, machine);
 
-  const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-  yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage: "All processes complete." };
+export function* simulatePredictedSJF(processes: Process[], config: PredictionConfig, machine?: MachineConfig): Simulation {
+  const result = yield* schedule(createPredictedSjfPolicy(config), processes, machine);
+  return { ...result, prediction: buildPredictionReport(processes, config) };
 }
 
-export function* simulateSJF(processes: Process[]) {
-  if (processes.length === 0) return;
-  const localProcesses = cloneProcesses(processes);
-  let currentTime = 0;
-  let completed = 0;
-  const n = localProcesses.length;
-
-  while(completed < n) {
-      let eventMessage = "";
-      const newlyArrived = localProcesses.filter(p => p.arrivalTime === currentTime);
-      if (newlyArrived.length > 0) {
-          eventMessage += `${newlyArrived.map(p=>p.name).join(', ')} arrive${newlyArrived.length > 1 ? '' : 's'}. `;
-      }
-      
-      const readyQueue = localProcesses.filter(p => p.arrivalTime <= currentTime && p.state !== 'completed');
-      
-      if (readyQueue.length === 0) {
-          if(!eventMessage) eventMessage = "CPU is idle.";
-          const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-          yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage };
-          currentTime++;
-          continue;
-      }
-      
-      const processToRun = readyQueue.reduce((prev, curr) => {
-        if (prev.burstTime < curr.burstTime) return prev;
-        if (prev.burstTime > curr.burstTime) return curr;
-        if (prev.arrivalTime < curr.arrivalTime) return prev;
-        return curr;
-      });
+export function* simulatePredictedSRTF(processes: Process[], config: PredictionConfig, machine?: MachineConfig): Simulation {
+  const result = yield* schedule(createPredictedSrtfPolicy(config), processes, machine);
+  return { ...result, prediction: buildPredictionReport(processes, config) };
+}
 
-      eventMessage += `CPU selects ${processToRun.name} (shortest job).`;
-
-      const burstDuration = processToRun.burstTime;
-      for (let i = 0; i < burstDuration; i++) {
-          processToRun.remainingTime--;
-          
-          const currentReadyQueue = localProcesses.filter(p => p.arrivalTime <= currentTime && p.state !== 'completed' && p.id !== processToRun.id);
-          const updatedProcesses = updateProcessStates(localProcesses, processToRun, currentReadyQueue, currentTime);
-          
-          yield { time: currentTime, runningProcess: processToRun, readyQueue: currentReadyQueue, processes: updatedProcesses, eventMessage };
-          eventMessage = ""; // Clear after first tick
-          currentTime++;
-      }
-      
-      processToRun.completionTime = currentTime;
-      processToRun.turnaroundTime = processToRun.completionTime - processToRun.arrivalTime;
-      processToRun.waitingTime = processToRun.turnaroundTime - processToRun.burstTime;
-      processToRun.state = 'completed';
-      completed++;
-      
-      const finalUpdatedProcesses = updateProcessStates(localProcesses, null, [], currentTime-1);
-      yield { time: currentTime - 1, runningProcess: processToRun, readyQueue: [], processes: finalUpdatedProcesses, eventMessage: `${processToRun.name} completes execution.` };
-  }
+export const simulateLJF = (processes: Process[], machine?: MachineConfig): Simulation =>
+  schedule(ljfPolicy, processes, machine);
 
-  const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-  yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage: "All processes complete." };
-}
+export const simulateLRTF = (processes: Process[], machine?: MachineConfig): Simulation =>
+  schedule(lrtfPolicy, processes, machine);
 
-export function* simulateSRTF(processes: Process[]) {
-  if (processes.length === 0) return;
-  const localProcesses = cloneProcesses(processes);
-  let currentTime = 0;
-  let completed = 0;
-  const n = localProcesses.length;
-  let lastRunningProcessId: number | null = null;
-
-  while (completed < n) {
-    let eventMessage = "";
-    const newlyArrived = localProcesses.filter(p => p.arrivalTime === currentTime);
-    if(newlyArrived.length > 0) {
-        eventMessage += `${newlyArrived.map(p => p.name).join(', ')} arrive${newlyArrived.length > 1 ? '' : 's'}. `;
-    }
+export const simulateRoundRobin = (processes: Process[], config: RoundRobinConfig, machine?: MachineConfig): Simulation =>
+  schedule(createRoundRobinPolicy(config), processes, machine);
 
-    const readyQueue = localProcesses.filter(p => p.arrivalTime <= currentTime && p.remainingTime > 0);
-    
-    let runningProcess: Process | null = null;
-    if (readyQueue.length > 0) {
-      runningProcess = readyQueue.reduce((prev, curr) => {
-        if (prev.remainingTime < curr.remainingTime) return prev;
-        if (prev.remainingTime > curr.remainingTime) return curr;
-        if (prev.arrivalTime < curr.arrivalTime) return prev;
-        return curr;
-      });
-    }
-    
-    if (runningProcess) {
-      if(lastRunningProcessId !== runningProcess.id) {
-          const lastProcess = localProcesses.find(p => p.id === lastRunningProcessId);
-          if (lastProcess && lastProcess.remainingTime > 0) {
-              eventMessage += `${runningProcess.name} preempts ${lastProcess.name} (shorter remaining time).`;
-          } else {
-              eventMessage += `CPU starts running ${runningProcess.name}.`;
-          }
-      }
-      
-      runningProcess.remainingTime--;
-
-      if (runningProcess.remainingTime === 0) {
-        completed++;
-        runningProcess.completionTime = currentTime + 1;
-        runningProcess.turnaroundTime = runningProcess.completionTime - runningProcess.arrivalTime;
-        runningProcess.waitingTime = runningProcess.turnaroundTime - runningProcess.burstTime;
-        runningProcess.state = 'completed';
-        eventMessage += ` ${runningProcess.name} completes execution.`;
-      }
-    } else {
-      eventMessage += 'CPU is idle.';
-    }
-    
-    const updatedProcesses = updateProcessStates(localProcesses, runningProcess, readyQueue.filter(p => p.id !== runningProcess?.id), currentTime);
-    yield { time: currentTime, runningProcess, readyQueue: readyQueue.filter(p => p.id !== runningProcess?.id), processes: updatedProcesses, eventMessage: eventMessage.trim() };
-    lastRunningProcessId = runningProcess?.id ?? null;
-    currentTime++;
-  }
+export const simulateMLFQ = (processes: Process[], config: MlfqConfig, machine?: MachineConfig): Simulation =>
+  schedule(createMlfqPolicy(config), processes, machine);
 
-  const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-  yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage: "All processes complete." };
-}
+export const simulateMultilevelQueue = (processes: Process[], config: MultilevelQueueConfig, machine?: MachineConfig): Simulation =>
+  schedule(createMultilevelQueuePolicy(config), processes, machine);
 
+export const simulateLottery = (processes: Process[], config: ProportionalShareConfig, machine?: MachineConfig): Simulation =>
+  schedule(createLotteryPolicy(config), processes, machine);
 
-export function* simulateRoundRobin(processes: Process[], timeQuantum: number) {
-  if (processes.length === 0) return;
-  const localProcesses = cloneProcesses(processes);
-  const n = localProcesses.length;
-  let currentTime = 0;
-  let completed = 0;
-  const readyQueue: Process[] = [];
-  let quantumCounter = 0;
-  let runningProcess: Process | null = null;
-
-  while(completed < n) {
-    let eventMessage = "";
-
-    // **Standard Model Step 1**: Check for quantum expiry or completion from PREVIOUS tick
-    if (runningProcess) {
-        if (runningProcess.remainingTime === 0) {
-            eventMessage += `${runningProcess.name} completes execution. `;
-            completed++;
-            runningProcess.state = 'completed';
-            runningProcess.completionTime = currentTime;
-            runningProcess.turnaroundTime = runningProcess.completionTime - runningProcess.arrivalTime;
-            runningProcess.waitingTime = runningProcess.turnaroundTime - runningProcess.burstTime;
-            runningProcess = null;
-        } else if (quantumCounter === timeQuantum) {
-            eventMessage += `Time quantum for ${runningProcess.name} expires. Moved to back of queue. `;
-            readyQueue.push(runningProcess);
-            runningProcess = null;
-        }
-    }
+export const simulateStride = (processes: Process[], config: ProportionalShareConfig, machine?: MachineConfig): Simulation =>
+  schedule(createStridePolicy(config), processes, machine);
 
-    // **Standard Model Step 2**: Add newly arrived processes to the back of the queue
-    const newlyArrived = localProcesses.filter(p => p.arrivalTime === currentTime);
-    if(newlyArrived.length > 0) {
-        eventMessage += `${newlyArrived.map(p => p.name).join(', ')} arrive${newlyArrived.length > 1 ? '' : 's'}. `;
-        newlyArrived.sort((a,b) => a.id - b.id).forEach(p => readyQueue.push(p));
-    }
-    
-    // **Standard Model Step 3**: If CPU is idle, get the next process
-    if (!runningProcess && readyQueue.length > 0) {
-      runningProcess = readyQueue.shift()!;
-      eventMessage += `CPU takes ${runningProcess.name} from queue.`;
-      quantumCounter = 0;
-    }
+export const simulateCFS = (processes: Process[], config: CfsConfig, machine?: MachineConfig): Simulation =>
+  schedule(createCfsPolicy(config), processes, machine);
 
-    // **Standard Model Step 4**: Execute for one tick
-    if (runningProcess) {
-      runningProcess.remainingTime--;
-      quantumCounter++;
-    } else {
-        if(!eventMessage) eventMessage = "CPU is idle.";
-    }
-    
-    const updatedProcesses = updateProcessStates(localProcesses, runningProcess, readyQueue, currentTime);
-    yield { time: currentTime, runningProcess, readyQueue: [...readyQueue], processes: updatedProcesses, eventMessage: eventMessage.trim() };
-    currentTime++;
-  }
+export const simulateFairShare = (processes: Process[], config: FairShareConfig, machine?: MachineConfig): Simulation =>
+  schedule(createFairSharePolicy(config), processes, machine);
 
-  const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-  yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage: "All processes complete." };
+export function* simulateEDF(tasks: RealTimeTask[], horizon: number, machine?: MachineConfig): Simulation {
+  const result = yield* schedule(edfPolicy, expandJobs(tasks, horizon), machine);
+  return { ...result, realTime: buildRealTimeReport(result, tasks, horizon, 'EDF') };
 }
 
-export function* simulatePriorityNonPreemptive(processes: Process[]) {
-    if (processes.length === 0) return;
-    const localProcesses = cloneProcesses(processes);
-    let currentTime = 0;
-    let completed = 0;
-    const n = localProcesses.length;
-
-    while (completed < n) {
-        let eventMessage = "";
-        const newlyArrived = localProcesses.filter(p => p.arrivalTime === currentTime);
-        if (newlyArrived.length > 0) {
-            eventMessage += `${newlyArrived.map(p=>p.name).join(', ')} arrive${newlyArrived.length > 1 ? '' : 's'}. `;
-        }
-        
-        const readyQueue = localProcesses.filter(p => p.arrivalTime <= currentTime && p.state !== 'completed');
-        
-        if (readyQueue.length === 0) {
-            if (!eventMessage) eventMessage = "CPU is idle.";
-            const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-            yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage };
-            currentTime++;
-            continue;
-        }
-        
-        const processToRun = readyQueue.reduce((prev, curr) => {
-            const prevPriority = prev.priority ?? Infinity;
-            const currPriority = curr.priority ?? Infinity;
-            if (prevPriority < currPriority) return prev;
-            if (prevPriority > currPriority) return curr;
-            if (prev.arrivalTime < curr.arrivalTime) return prev;
-            return curr;
-        });
-
-        eventMessage += `CPU selects ${processToRun.name} (highest priority).`;
-        
-        const burstDuration = processToRun.burstTime;
-        for (let i = 0; i < burstDuration; i++) {
-            processToRun.remainingTime--;
-            
-            const currentReadyQueue = localProcesses.filter(p => p.arrivalTime <= currentTime && p.state !== 'completed' && p.id !== processToRun.id);
-            const updatedProcesses = updateProcessStates(localProcesses, processToRun, currentReadyQueue, currentTime);
-            
-            yield { time: currentTime, runningProcess: processToRun, readyQueue: currentReadyQueue, processes: updatedProcesses, eventMessage };
-            eventMessage = "";
-            currentTime++;
-        }
-        
-        processToRun.completionTime = currentTime;
-        processToRun.turnaroundTime = processToRun.completionTime - processToRun.arrivalTime;
-        processToRun.waitingTime = processToRun.turnaroundTime - processToRun.burstTime;
-        processToRun.state = 'completed';
-        completed++;
-        
-        const finalUpdatedProcesses = updateProcessStates(localProcesses, null, [], currentTime - 1);
-        yield { time: currentTime - 1, runningProcess: processToRun, readyQueue: [], processes: finalUpdatedProcesses, eventMessage: `${processToRun.name} completes execution.` };
-    }
-
-    const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-    yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage: "All processes complete." };
+export function* simulateRateMonotonic(tasks: RealTimeTask[], horizon: number, machine?: MachineConfig): Simulation {
+  const result = yield* schedule(rateMonotonicPolicy, expandJobs(tasks, horizon), machine);
+  return { ...result, realTime: buildRealTimeReport(result, tasks, horizon, 'RM') };
 }
 
-export function* simulatePriorityPreemptive(processes: Process[]) {
-    if (processes.length === 0) return;
-    const localProcesses = cloneProcesses(processes);
-    let currentTime = 0;
-    let completed = 0;
-    const n = localProcesses.length;
-    let lastRunningProcessId: number | null = null;
-
-    while (completed < n) {
-        let eventMessage = "";
-        const newlyArrived = localProcesses.filter(p => p.arrivalTime === currentTime);
-        if (newlyArrived.length > 0) {
-            eventMessage += `${newlyArrived.map(p => p.name).join(', ')} arrive${newlyArrived.length > 1 ? '' : 's'}. `;
-        }
-        
-        const readyQueue = localProcesses.filter(p => p.arrivalTime <= currentTime && p.remainingTime > 0);
-        
-        let runningProcess: Process | null = null;
-        if (readyQueue.length > 0) {
-            runningProcess = readyQueue.reduce((prev, curr) => {
-                const prevPriority = prev.priority ?? Infinity;
-                const currPriority = curr.priority ?? Infinity;
-                if (prevPriority < currPriority) return prev;
-                if (prevPriority > currPriority) return curr;
-                if (prev.arrivalTime < curr.arrivalTime) return prev;
-                return curr;
-            });
-        }
-        
-        if (runningProcess) {
-            if (lastRunningProcessId !== runningProcess.id) {
-                const lastProcess = localProcesses.find(p => p.id === lastRunningProcessId);
-                if (lastProcess && lastProcess.remainingTime > 0) {
-                    eventMessage += `${runningProcess.name} preempts ${lastProcess.name} (higher priority).`;
-                } else {
-                    eventMessage += `CPU starts running ${runningProcess.name}.`;
-                }
-            }
-            
-            runningProcess.remainingTime--;
-
-            if (runningProcess.remainingTime === 0) {
-                completed++;
-                runningProcess.completionTime = currentTime + 1;
-                runningProcess.turnaroundTime = runningProcess.completionTime - runningProcess.arrivalTime;
-                runningProcess.waitingTime = runningProcess.turnaroundTime - runningProcess.burstTime;
-                runningProcess.state = 'completed';
-                eventMessage += ` ${runningProcess.name} completes execution.`;
-            }
-        } else {
-            eventMessage += 'CPU is idle.';
-        }
-        
-        const otherReadyProcesses = readyQueue.filter(p => p.id !== runningProcess?.id);
-        const updatedProcesses = updateProcessStates(localProcesses, runningProcess, otherReadyProcesses, currentTime);
-        yield { time: currentTime, runningProcess, readyQueue: otherReadyProcesses, processes: updatedProcesses, eventMessage: eventMessage.trim() };
-        lastRunningProcessId = runningProcess?.id ?? null;
-        currentTime++;
-    }
+export const simulatePriorityNonPreemptive = (processes: Process[], aging?: AgingConfig, machine?: MachineConfig): Simulation =>
+  schedule(createPriorityNonPreemptivePolicy(aging), processes, machine);
 
-    const updatedProcesses = updateProcessStates(localProcesses, null, [], currentTime);
-    yield { time: currentTime, runningProcess: null, readyQueue: [], processes: updatedProcesses, eventMessage: "All processes complete." };
-}
+export const simulatePriorityPreemptive = (processes: Process[], aging?: AgingConfig, machine?: MachineConfig): Simulation =>
+  schedule(createPriorityPreemptivePolicy(aging), processes, machine);
+
+
+// --- BATCH ALGORITHMS FOR "COMPARE ALL" ---
+
+export const runFCFS = (processes: Process[], machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateFCFS(processes, machine));
+
+export const runSJF = (processes: Process[], machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateSJF(processes, machine));
 
+export const runHRRN = (processes: Process[], machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateHRRN(processes, machine));
+
+export const runSRTF = (processes: Process[], machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateSRTF(processes, machine));
+
+export const runPredictedSJF = (processes: Process[], config: PredictionConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulatePredictedSJF(processes, config, machine));
+
+export const runPredictedSRTF = (processes: Process[], config: PredictionConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulatePredictedSRTF(processes, config, machine));
+
+export const runLJF = (processes: Process[], machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateLJF(processes, machine));
+
+export const runLRTF = (processes: Process[], machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateLRTF(processes, machine));
+
+export const runRoundRobin = (processes: Process[], config: RoundRobinConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateRoundRobin(processes, config, machine));
+
+export const runMLFQ = (processes: Process[], config: MlfqConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateMLFQ(processes, config, machine));
+
+export const runMultilevelQueue = (processes: Process[], config: MultilevelQueueConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateMultilevelQueue(processes, config, machine));
+
+export const runLottery = (processes: Process[], config: ProportionalShareConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateLottery(processes, config, machine));
+
+export const runStride = (processes: Process[], config: ProportionalShareConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateStride(processes, config, machine));
+
+export const runCFS = (processes: Process[], config: CfsConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateCFS(processes, config, machine));
+
+export const runFairShare = (processes: Process[], config: FairShareConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateFairShare(processes, config, machine));
+
+export const runEDF = (tasks: RealTimeTask[], horizon: number, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateEDF(tasks, horizon, machine));
+
+export const runRateMonotonic = (tasks: RealTimeTask[], horizon: number, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulateRateMonotonic(tasks, horizon, machine));
+
+export const runPriorityNonPreemptive = (processes: Process[], aging?: AgingConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulatePriorityNonPreemptive(processes, aging, machine));
+
+export const runPriorityPreemptive = (processes: Process[], aging?: AgingConfig, machine?: MachineConfig): AlgorithmResult =>
+  runToCompletion(simulatePriorityPreemptive(processes, aging, machine));
+
+// Every built-in algorithm on the same processes, in the order Compare All lists them.
+export const runAllAlgorithms = (processes: Process[], settings: AlgorithmSettings): AlgorithmResult[] => {
+  const { rrConfig, mlfqConfig, mlqConfig, agingConfig, shareConfig, cfsConfig, predictionConfig, fairShareConfig, machineConfig } = settings;
+  return [
+    runFCFS(processes, machineConfig),
+    runSJF(processes, machineConfig),
+    runHRRN(processes, machineConfig),
+    runSRTF(processes, machineConfig),
+    runPredictedSJF(processes, predictionConfig, machineConfig),
+    runPredictedSRTF(processes, predictionConfig, machineConfig),
+    runLJF(processes, machineConfig),
+    runLRTF(processes, machineConfig),
+    runPriorityNonPreemptive(processes, agingConfig, machineConfig),
+    runPriorityPreemptive(processes, agingConfig, machineConfig),
+    runRoundRobin(processes, rrConfig, machineConfig),
+    runMLFQ(processes, mlfqConfig, machineConfig),
+    runMultilevelQueue(processes, mlqConfig, machineConfig),
+    runLottery(processes, shareConfig, machineConfig),
+    runStride(processes, shareConfig, machineConfig),
+    runCFS(processes, cfsConfig, machineConfig),
+    runFairShare(processes, fairShareConfig, machineConfig),
+  ];
+};
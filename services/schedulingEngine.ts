@@ -0,0 +1,667 @@
+import type { Process, AlgorithmResult, GanttEntry, SimulationStep, ReadyQueueGroup, ProcessShare, GroupReport, MachineConfig, TieBreakRule, TimelineSample } from '../types';
+import { TIE_BREAK_LABELS } from '../constants';
+import { remainingCpuBurst } from './bursts';
+import { buildFairnessReport } from './statistics';
+import { appendSample, countStates, timelineSample } from './timeline';
+
+// A scheduling policy only makes decisions. The engine below owns the clock, the ready
+// queue, arrivals, completions and bookkeeping, so every policy produces its batch result
+// and its live step stream from exactly the same decisions.
+export interface SchedulingPolicy {
+  name: string;
+  // Picks the next process to dispatch. The ready queue is never empty and is kept in
+  // the order processes entered it (simultaneous arrivals in tie-break order).
+  // `running` is the process on the core being decided for: null when the core is idle, the
+  // running process when the pick is a candidate to preempt it.
+  select: (readyQueue: Process[], time: number, running: Process | null) => Process;
+  // Short explanation appended to the dispatch message, e.g. "shortest job".
+  selectionReason?: string;
+  // Extra detail logged before a dispatch, given the ready queue the choice was made from.
+  // Empty text logs nothing.
+  describeSelection?: (readyQueue: Process[], selected: Process, time: number) => string;
+  // Called whenever a process is given the CPU, after any selection message is logged.
+  onDispatch?: (process: Process, time: number) => void;
+  // Called after the running process has executed for `duration` time units starting at `time`.
+  onRun?: (process: Process, time: number, duration: number) => void;
+  // When set, the running process is returned to the back of the ready queue after
+  // running for this many consecutive time units. Evaluated once, at dispatch.
+  timeQuantum?: (process: Process) => number;
+  // By default a process whose quantum expired rejoins the ready queue ahead of the processes
+  // that arrive or come back from I/O at the same moment; when set, it rejoins behind them.
+  requeueAfterArrivals?: boolean;
+  // Called when a process is returned to the ready queue because its quantum expired.
+  // Any returned text is added to the event log.
+  onQuantumExpired?: (process: Process, time: number) => string | void;
+  // Called when a process finishes an I/O burst and rejoins the ready queue, before onTick, with
+  // the processes already in the system (ready or running). Any returned text is added to the event log.
+  onWake?: (process: Process, time: number, active: Process[]) => string | void;
+  // Called at every decision point, after arrivals are admitted, with the
+  // processes currently in the system (ready queue plus the running process).
+  onTick?: (time: number, active: Process[]) => string | void;
+  // The next time onTick has something to do on its own (a periodic boost, the end of a time
+  // slice, a deadline), so the engine stops there even if nothing arrives or finishes.
+  // Undefined when there is none.
+  nextEventTime?: (time: number, active: Process[]) => number | undefined;
+  // Splits the ready queue into the queues the policy maintains internally, for display.
+  groupReadyQueue?: (readyQueue: Process[]) => ReadyQueueGroup[];
+  // Preemptive policies decide whether the best ready candidate should take the CPU
+  // away from the running process. Checked at every decision point.
+  shouldPreempt?: (running: Process, candidate: Process, time: number) => boolean;
+  // Short explanation appended to the preemption message, or a function of the preemption.
+  preemptionReason?: string | ((running: Process, candidate: Process, time: number) => string);
+  // Proportional-share policies weight each process (tickets, nice weight, ...). When set,
+  // the result reports each process's actual CPU share against the share its weight entitles it to.
+  shareWeight?: (process: Process) => number;
+}
+
+// Helper to deep clone processes to ensure each algorithm runs on a fresh dataset
+export const cloneProcesses = (processes: Process[]): Process[] => {
+  return JSON.parse(JSON.stringify(processes));
+};
+
+// Helper for empty process list case
+export const createEmptyResult = (name: string): AlgorithmResult => ({
+  name,
+  ganttChart: [],
+  processes: [],
+  avgWaitingTime: 0,
+  avgTurnaroundTime: 0,
+  avgResponseTime: 0,
+  avgNormalizedTurnaround: 0,
+  maxWaitingTime: 0,
+  throughput: 0,
+  cpuUtilization: 0,
+  idleTime: 0,
+  contextSwitchCount: 0,
+  preemptions: 0,
+  totalTime: 0,
+  fairness: buildFairnessReport([]),
+  timeline: [],
+});
+
+// Times may be decimal. Every computed time is rounded to nine decimal places, so sums such as
+// 0.1 + 0.2 land exactly on 0.3 and events meant to coincide do.
+export const roundTime = (time: number): number => Math.round(time * 1e9) / 1e9;
+
+// Helper to extend a Gantt chart by one segment, merging it into the previous one when the
+// same process (or the same switch) simply continues.
+const extendGanttChart = (ganttChart: GanttEntry[], process: Process, start: number, end: number, kind?: 'switch') => {
+  const last = ganttChart[ganttChart.length - 1];
+  if (last && last.end === start && last.processName === process.name && last.kind === kind) {
+    last.end = end;
+    return;
+  }
+  ganttChart.push({
+    processName: process.name,
+    color: process.color,
+    start,
+    end,
+    ...(kind && { kind }),
+  });
+};
+
+// Earlier arrival first, then lower id.
+export const compareArrival = (a: Process, b: Process): number => a.arrivalTime - b.arrivalTime || a.id - b.id;
+
+// Orders processes under each tie-break rule. The engine ranks every process by its rule once,
+// up front; 'table-order' keeps the order the processes were given in (the sort is stable).
+const tieBreakOrders: Record<TieBreakRule, (a: Process, b: Process) => number> = {
+  'arrival': compareArrival,
+  'id': (a, b) => a.id - b.id,
+  'table-order': () => 0,
+  'name': (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }) || a.id - b.id,
+};
+
+// Shared tie-breaking rule: the lower tie rank wins, or, outside the engine, compareArrival.
+export const compareTies = (a: Process, b: Process): number =>
+  (a.tieRank ?? 0) - (b.tieRank ?? 0) || compareArrival(a, b);
+
+// Helper to pick the process with the smallest key, breaking ties with compareTies
+export const pickMin = (queue: Process[], key: (p: Process) => number): Process => {
+  return queue.reduce((best, curr) => {
+    const diff = key(curr) - key(best);
+    if (diff < 0) return curr;
+    if (diff > 0) return best;
+    return compareTies(curr, best) < 0 ? curr : best;
+  });
+};
+
+const formatArrivals = (arrived: Process[]): string =>
+  `${arrived.map(p => p.name).join(', ')} arrive${arrived.length > 1 ? '' : 's'}.`;
+
+const snapshot = (processes: Process[]): Process[] => processes.map(p => ({ ...p }));
+
+export interface ScheduleOptions {
+  // Also stop at every whole time unit, as the per-tick engine this one replaced did. On integer
+  // inputs the result must be the same either way; scripts/checkEngine.ts relies on that.
+  unitSteps?: boolean;
+}
+
+// Per-process share accounting over the time units in which the process was runnable.
+interface ShareTally {
+  runnable: number;
+  ran: number;
+  entitled: number;
+}
+
+const buildShares = (processes: Process[], tallies: Map<number, ShareTally>): ProcessShare[] =>
+  processes.map(p => {
+    const tally = tallies.get(p.id) ?? { runnable: 0, ran: 0, entitled: 0 };
+    return {
+      processName: p.name,
+      actualShare: tally.runnable > 0 ? tally.ran / tally.runnable : 0,
+      entitledShare: tally.runnable > 0 ? tally.entitled / tally.runnable : 0,
+    };
+  });
+
+// Per-group accounting, in core-time units, over the time units in which the group had work.
+interface GroupTally {
+  runnable: number;
+  ran: number;
+}
+
+const average = (values: number[]): number => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const buildGroupReports = (processes: Process[], tallies: Map<string, GroupTally>): GroupReport[] =>
+  [...new Set(processes.map(p => p.group))].sort().map(group => {
+    const members = processes.filter(p => p.group === group);
+    const tally = tallies.get(group) ?? { runnable: 0, ran: 0 };
+    return {
+      group,
+      processCount: members.length,
+      cpuShare: tally.runnable > 0 ? tally.ran / tally.runnable : 0,
+      avgWaitingTime: average(members.map(p => p.waitingTime)),
+      avgTurnaroundTime: average(members.map(p => p.turnaroundTime)),
+    };
+  });
+
+export const SINGLE_CORE: MachineConfig = { cores: 1, topology: 'global', balanceInterval: 0, contextSwitchCost: 0, tieBreak: 'arrival' };
+
+// One CPU. With a global topology every core shares the same readyQueue array.
+interface Core {
+  index: number;
+  label: string;
+  running: Process | null;
+  readyQueue: Process[];
+  quantumUsed: number;
+  quantum: number;
+  ganttChart: GanttEntry[];
+  busyTime: number;
+  // The process whose context the core holds, and how much of a switch to it is still left.
+  lastRan: Process | null;
+  switchRemaining: number;
+}
+
+// --- CORE EVENT LOOP ---
+// The clock jumps from one decision point to the next: an arrival, a completion, the end of a
+// CPU or I/O burst, a quantum expiry, the end of a context switch, a load-balancing pass, or a
+// time the policy asks for. Each iteration covers the interval [time, next decision point):
+//   1. a running process whose quantum is used up goes to the back of its ready queue,
+//   2. processes arriving by `time`, then processes back from I/O, join a ready queue; then the
+//      policy's onTick hook runs (and, with per-core queues, the load balancer),
+//   3. every idle core dispatches the policy's choice among the processes it may run,
+//   4. on the other cores a preemptive policy may swap a running process for a better candidate;
+//      steps 3 and 4 repeat until neither changes anything,
+//   5. the I/O device serves the head of its queue, and every running process executes, until
+//      the next decision point; then processes may complete or block for I/O.
+// Nothing but the running processes' progress changes between decision points, so time and
+// memory grow with the number of events, not with the length of the schedule. On integer inputs
+// the result is exactly that of stepping one time unit at a time (options.unitSteps), which
+// `npm run check:engine` verifies. One step is yielded per interval; the generator returns the
+// batch result.
+// There is one I/O device, served first come, first served.
+export function* schedule(
+  policy: SchedulingPolicy,
+  processes: Process[],
+  machine: MachineConfig = SINGLE_CORE,
+  options: ScheduleOptions = {},
+): Generator<SimulationStep, AlgorithmResult> {
+  if (processes.length === 0) return createEmptyResult(policy.name);
+
+  const localProcesses: Process[] = cloneProcesses(processes).map(p => ({
+    ...p,
+    remainingTime: p.burstTime,
+    completionTime: 0,
+    turnaroundTime: 0,
+    waitingTime: 0,
+    responseTime: undefined,
+    normalizedTurnaround: undefined,
+    state: 'not arrived' as const,
+    ...(p.bursts && { burstIndex: 0, burstRemaining: p.bursts[0].duration }),
+  }));
+  const n = localProcesses.length;
+  const tieBreak = machine.tieBreak ?? 'arrival';
+  [...localProcesses].sort(tieBreakOrders[tieBreak]).forEach((p, rank) => { p.tieRank = rank; });
+  const pending = [...localProcesses].sort((a, b) => a.arrivalTime - b.arrivalTime || compareTies(a, b));
+  const coreCount = Math.max(1, machine.cores);
+  const multicore = coreCount > 1;
+  const perCore = multicore && machine.topology === 'per-core';
+  const sharedQueue: Process[] = [];
+  const cores: Core[] = Array.from({ length: coreCount }, (_, index) => ({
+    index,
+    label: multicore ? `CPU ${index + 1}` : 'CPU',
+    running: null,
+    readyQueue: perCore ? [] : sharedQueue,
+    quantumUsed: 0,
+    quantum: Infinity,
+    ganttChart: [],
+    busyTime: 0,
+    lastRan: null,
+    switchRemaining: 0,
+  }));
+  const switchCost = machine.contextSwitchCost;
+  let switchCount = 0;
+  let switchOverhead = 0;
+  let preemptions = 0;
+  let completed = 0;
+  let currentTime = 0;
+  let migrations = 0;
+  let events: string[] = [];
+  const timeline: TimelineSample[] = [];
+  const lastCore = new Map<number, number>();
+  const shareTallies = new Map<number, ShareTally>();
+  const grouped = new Set(localProcesses.map(p => p.group)).size > 1;
+  const groupTallies = new Map<string, GroupTally>();
+  const hasIo = localProcesses.some(p => p.bursts && p.bursts.length > 1);
+  const ioQueue: Process[] = [];
+  let ioDone: Process[] = [];
+  const blockedTime = new Map<number, number>();
+  let ioBusyTime = 0;
+  let overlapTime = 0;
+  // With per-core queues the load balancer runs every balanceInterval time units.
+  const balancing = perCore && machine.balanceInterval > 0;
+  let nextBalance = machine.balanceInterval;
+
+  const allReady = (): Process[] => perCore ? cores.flatMap(core => core.readyQueue) : sharedQueue;
+
+  // A process pinned to a core that does not exist on this machine may run anywhere.
+  const pinnedCore = (process: Process): number | null =>
+    process.affinity !== undefined && process.affinity < coreCount ? process.affinity : null;
+
+  const runnableOn = (core: Core): Process[] => core.readyQueue.filter(p => {
+    const pinned = pinnedCore(p);
+    return pinned === null || pinned === core.index;
+  });
+
+  const load = (core: Core): number => core.readyQueue.length + (core.running ? 1 : 0);
+
+  // Last process in a queue that is free to move to another core.
+  const movableIn = (core: Core): Process | undefined =>
+    [...core.readyQueue].reverse().find(p => pinnedCore(p) === null);
+
+  const requeue = (process: Process, core: Core) => {
+    process.state = 'waiting';
+    process.queuedAt = currentTime;
+    core.readyQueue.push(process);
+  };
+
+  const dispatch = (core: Core, process: Process) => {
+    core.readyQueue.splice(core.readyQueue.indexOf(process), 1);
+    process.state = 'running';
+    core.running = process;
+    core.quantumUsed = 0;
+    core.quantum = policy.timeQuantum ? policy.timeQuantum(process) : Infinity;
+    policy.onDispatch?.(process, currentTime);
+  };
+
+  // Counts a migration when a process resumes on a different core from the one it last ran on.
+  const noteMigration = (core: Core, process: Process) => {
+    const previous = lastCore.get(process.id);
+    lastCore.set(process.id, core.index);
+    if (previous === undefined || previous === core.index) return;
+    migrations++;
+    events.push(`${process.name} migrates from ${cores[previous].label} to ${core.label}.`);
+  };
+
+  // The running process finished a CPU burst with an I/O burst next.
+  const block = (core: Core, process: Process) => {
+    process.burstIndex! += 1;
+    process.burstRemaining = process.bursts![process.burstIndex!].duration;
+    process.state = 'blocked';
+    ioQueue.push(process);
+    core.running = null;
+    events.push(`${process.name} blocks for I/O (${process.burstRemaining} units).`);
+  };
+
+  // `duration` units of I/O for the request at the head of the device queue.
+  const serveIo = (duration: number) => {
+    ioQueue.forEach(p => blockedTime.set(p.id, roundTime((blockedTime.get(p.id) ?? 0) + duration)));
+    const request = ioQueue[0];
+    if (!request) return;
+    ioBusyTime = roundTime(ioBusyTime + duration);
+    request.burstRemaining = roundTime(request.burstRemaining! - duration);
+    if (request.burstRemaining > 0) return;
+    ioQueue.shift();
+    request.burstIndex! += 1;
+    request.burstRemaining = request.bursts![request.burstIndex!].duration;
+    ioDone.push(request);
+  };
+
+  // Dispatching a process other than the one whose context the core holds costs switchCost
+  // time units, during which the core runs nothing. Loading the first process is free.
+  const noteSwitch = (core: Core, process: Process) => {
+    const previous = core.lastRan;
+    core.lastRan = process;
+    if (!previous || previous === process) return;
+    switchCount++;
+    if (switchCost <= 0) return;
+    core.switchRemaining = switchCost;
+    const where = multicore ? ` on ${core.label}` : '';
+    events.push(`Context switch ${previous.name} → ${process.name}${where} (${switchCost} unit${switchCost === 1 ? '' : 's'} of overhead).`);
+  };
+
+  // Per-core queues: a new process joins its pinned core, otherwise the least loaded one.
+  const homeCoreFor = (process: Process): Core => {
+    const pinned = pinnedCore(process);
+    if (pinned !== null) return cores[pinned];
+    return cores.reduce((best, core) => load(core) < load(best) ? core : best);
+  };
+
+  const balanceLoad = () => {
+    for (;;) {
+      const busiest = cores.reduce((best, core) => load(core) > load(best) ? core : best);
+      const idlest = cores.reduce((best, core) => load(core) < load(best) ? core : best);
+      const process = movableIn(busiest);
+      if (load(busiest) - load(idlest) <= 1 || !process) return;
+      busiest.readyQueue.splice(busiest.readyQueue.indexOf(process), 1);
+      idlest.readyQueue.push(process);
+      events.push(`Load balancer moves ${process.name} from ${busiest.label} to ${idlest.label}.`);
+    }
+  };
+
+  // An idle core with nothing it may run takes a waiting process from the longest other queue.
+  const stealWork = (thief: Core) => {
+    const victims = cores.filter(core => core !== thief && movableIn(core));
+    if (victims.length === 0) return;
+    const victim = victims.reduce((best, core) => core.readyQueue.length > best.readyQueue.length ? core : best);
+    const process = movableIn(victim)!;
+    victim.readyQueue.splice(victim.readyQueue.indexOf(process), 1);
+    thief.readyQueue.push(process);
+    events.push(`${thief.label} steals ${process.name} from ${victim.label}.`);
+  };
+
+  // Step 3: every idle core dispatches the policy's choice among the processes it may run.
+  const dispatchIdleCores = (expired: { process: Process, core: Core }[], dispatchedNow: Set<Core>) => {
+    cores.forEach(core => {
+      if (core.running) return;
+      if (perCore && runnableOn(core).length === 0) stealWork(core);
+      const candidates = runnableOn(core);
+      if (candidates.length === 0) return;
+      const next = policy.select(candidates, currentTime, null);
+      const detail = policy.describeSelection?.(candidates, next, currentTime);
+      if (detail) events.push(detail);
+      if (expired.some(entry => entry.core === core && entry.process !== next)) preemptions++;
+      dispatch(core, next);
+      dispatchedNow.add(core);
+      events.push(policy.selectionReason
+        ? `${core.label} selects ${next.name} (${policy.selectionReason}).`
+        : `${core.label} starts running ${next.name}.`);
+      noteMigration(core, next);
+      noteSwitch(core, next);
+    });
+  };
+
+  // Step 4: one round of preemption. Every busy core compares what it runs with the policy's best
+  // candidate for it; among the cores that would be preempted, the one running the weakest
+  // process gives way. A core is preempted at most once per decision point. Returns whether a
+  // preemption happened.
+  const preemptOnce = (dispatchedNow: Set<Core>): boolean => {
+    const shouldPreempt = policy.shouldPreempt;
+    if (!shouldPreempt) return false;
+    const contested = cores.flatMap(core => {
+      if (!core.running || dispatchedNow.has(core) || core.switchRemaining > 0) return [];
+      const candidates = runnableOn(core);
+      if (candidates.length === 0) return [];
+      const candidate = policy.select(candidates, currentTime, core.running);
+      return shouldPreempt(core.running, candidate, currentTime) ? [{ core, candidate }] : [];
+    });
+    if (contested.length === 0) return false;
+    const { core, candidate } = contested.reduce((weakest, entry) =>
+      shouldPreempt(entry.core.running!, weakest.core.running!, currentTime) ? entry : weakest);
+    const where = multicore ? ` on ${core.label}` : '';
+    const preemptionReason = typeof policy.preemptionReason === 'function'
+      ? policy.preemptionReason(core.running!, candidate, currentTime)
+      : policy.preemptionReason;
+    const reason = preemptionReason ? ` (${preemptionReason})` : '';
+    events.push(`${candidate.name} preempts ${core.running!.name}${where}${reason}.`);
+    preemptions++;
+    requeue(core.running!, core);
+    dispatch(core, candidate);
+    dispatchedNow.add(core);
+    noteMigration(core, candidate);
+    noteSwitch(core, candidate);
+    return true;
+  };
+
+  // With several cores, a process's entitlement is its weight's share of all the cores,
+  // capped at the one core it can use at a time.
+  const tallyShares = (onCpu: Process[], executing: Process[], duration: number) => {
+    const runnable = [...allReady(), ...onCpu];
+    const totalWeight = runnable.reduce((acc, p) => acc + policy.shareWeight!(p), 0);
+    runnable.forEach(p => {
+      const tally = shareTallies.get(p.id) ?? { runnable: 0, ran: 0, entitled: 0 };
+      tally.runnable += duration;
+      if (executing.includes(p)) tally.ran += duration;
+      if (totalWeight > 0) tally.entitled += duration * Math.min(1, policy.shareWeight!(p) / totalWeight * coreCount);
+      shareTallies.set(p.id, tally);
+    });
+  };
+
+  const tallyGroups = (onCpu: Process[], executing: Process[], duration: number) => {
+    new Set([...allReady(), ...onCpu].map(p => p.group)).forEach(group => {
+      const tally = groupTallies.get(group) ?? { runnable: 0, ran: 0 };
+      tally.runnable += duration * coreCount;
+      tally.ran += duration * executing.filter(p => p.group === group).length;
+      groupTallies.set(group, tally);
+    });
+  };
+
+  while (completed < n) {
+    // Time only moves forward, so the first iteration is the only one at time 0.
+    events = currentTime === 0 ? [`Ties are broken by ${TIE_BREAK_LABELS[tieBreak]}.`] : [];
+
+    // Step 1: Quantum expiry of the processes that ran during the previous unit.
+    const expired: { process: Process, core: Core }[] = [];
+    cores.forEach(core => {
+      if (!core.running || core.quantumUsed < core.quantum) return;
+      events.push(`Time quantum for ${core.running.name} expires. Moved to back of queue.`);
+      const note = policy.onQuantumExpired?.(core.running, currentTime);
+      if (note) events.push(note);
+      expired.push({ process: core.running, core });
+      core.running = null;
+    });
+    if (!policy.requeueAfterArrivals) expired.forEach(({ process, core }) => requeue(process, core));
+
+    // Step 2: Admit arrivals.
+    const arrived: Process[] = [];
+    const placements: string[] = [];
+    while (pending.length > 0 && pending[0].arrivalTime <= currentTime) {
+      const process = pending.shift()!;
+      const core = perCore ? homeCoreFor(process) : cores[0];
+      requeue(process, core);
+      arrived.push(process);
+      placements.push(`${process.name} on ${core.label}`);
+    }
+    if (arrived.length > 0) events.push(formatArrivals(arrived));
+    if (perCore && placements.length > 0) events.push(`Queued: ${placements.join(', ')}.`);
+
+    // Processes back from I/O rejoin the queue of the core they last ran on.
+    if (ioDone.length > 0) {
+      events.push(`${ioDone.map(p => p.name).join(', ')} finish${ioDone.length > 1 ? '' : 'es'} I/O and rejoin${ioDone.length > 1 ? '' : 's'} the ready queue.`);
+      const waitingToRequeue = policy.requeueAfterArrivals ? expired.map(({ process }) => process) : [];
+      const inSystem = [...allReady(), ...cores.flatMap(core => core.running ? [core.running] : []), ...waitingToRequeue];
+      ioDone.forEach(process => {
+        requeue(process, perCore ? cores[lastCore.get(process.id) ?? homeCoreFor(process).index] : cores[0]);
+        const note = policy.onWake?.(process, currentTime, inSystem);
+        if (note) events.push(note);
+      });
+      ioDone = [];
+    }
+    if (policy.requeueAfterArrivals) expired.forEach(({ process, core }) => requeue(process, core));
+
+    const active = [...allReady(), ...cores.flatMap(core => core.running ? [core.running] : [])];
+    const tickNote = policy.onTick?.(currentTime, active);
+    if (tickNote) events.push(tickNote);
+
+    if (balancing && currentTime >= nextBalance) {
+      balanceLoad();
+      nextBalance = roundTime(nextBalance + machine.balanceInterval);
+    }
+
+    // Steps 3 and 4 repeat until neither changes anything, so a process preempted in step 4 is
+    // taken by a core left idle at the same decision point.
+    const dispatchedNow = new Set<Core>();
+    dispatchIdleCores(expired, dispatchedNow);
+    while (preemptOnce(dispatchedNow)) dispatchIdleCores(expired, dispatchedNow);
+
+    // Step 5: Find the next decision point, then execute until it.
+    let next = Infinity;
+    const stopAt = (time: number | undefined) => {
+      if (time !== undefined && time > currentTime) next = Math.min(next, roundTime(time));
+    };
+    if (pending.length > 0) stopAt(pending[0].arrivalTime);
+    cores.forEach(core => {
+      const current = core.running;
+      if (!current) return;
+      if (core.switchRemaining > 0) {
+        stopAt(currentTime + core.switchRemaining);
+      } else {
+        stopAt(currentTime + remainingCpuBurst(current));
+        stopAt(currentTime + core.quantum - core.quantumUsed);
+      }
+    });
+    if (ioQueue.length > 0) stopAt(currentTime + ioQueue[0].burstRemaining!);
+    if (balancing) stopAt(nextBalance);
+    if (policy.nextEventTime) stopAt(policy.nextEventTime(currentTime, active));
+    if (options.unitSteps) stopAt(Math.floor(currentTime) + 1);
+    const duration = roundTime(next - currentTime);
+    // Nothing but progress changes until `next`, so the states now hold for the whole step.
+    const stateCounts = countStates(localProcesses);
+
+    const ran = cores.map(core => core.running);
+    const switching = cores.map(core => core.running !== null && core.switchRemaining > 0);
+    const executing = ran.filter((p, i): p is Process => p !== null && !switching[i]);
+    const onCpu = ran.filter((p): p is Process => p !== null);
+    if (policy.shareWeight) tallyShares(onCpu, executing, duration);
+    if (grouped) tallyGroups(onCpu, executing, duration);
+    const inService = ioQueue[0];
+    if (inService && executing.length > 0) overlapTime = roundTime(overlapTime + duration);
+    serveIo(duration);
+    cores.forEach(core => {
+      const current = core.running;
+      if (!current) return;
+      if (core.switchRemaining > 0) {
+        extendGanttChart(core.ganttChart, current, currentTime, next, 'switch');
+        core.switchRemaining = roundTime(core.switchRemaining - duration);
+        switchOverhead = roundTime(switchOverhead + duration);
+        return;
+      }
+      extendGanttChart(core.ganttChart, current, currentTime, next);
+      current.responseTime ??= roundTime(currentTime - current.arrivalTime);
+      core.busyTime = roundTime(core.busyTime + duration);
+      current.remainingTime = roundTime(current.remainingTime - duration);
+      if (current.bursts) current.burstRemaining = roundTime(current.burstRemaining! - duration);
+      core.quantumUsed = roundTime(core.quantumUsed + duration);
+      policy.onRun?.(current, currentTime, duration);
+
+      if (current.remainingTime <= 0) {
+        current.completionTime = next;
+        current.turnaroundTime = roundTime(current.completionTime - current.arrivalTime);
+        current.waitingTime = roundTime(current.turnaroundTime - current.burstTime - (blockedTime.get(current.id) ?? 0));
+        current.normalizedTurnaround = current.turnaroundTime / current.burstTime;
+        current.state = 'completed';
+        completed++;
+        core.running = null;
+        events.push(`${current.name} completes execution.`);
+      } else if (current.bursts && current.burstRemaining! <= 0) {
+        block(core, current);
+      }
+    });
+    if (ran.every(p => p === null) && events.length === 0) {
+      const idle = multicore ? 'All CPUs are idle' : 'CPU is idle';
+      events.push(inService ? `${idle} while ${inService.name} performs I/O.` : `${idle}.`);
+    }
+
+    const readyQueue = allReady();
+    const step: SimulationStep = {
+      time: currentTime,
+      duration,
+      runningProcess: ran[0],
+      readyQueue: [...readyQueue],
+      readyQueues: perCore
+        ? cores.map(core => ({ label: core.label, processes: [...core.readyQueue] }))
+        : policy.groupReadyQueue?.(readyQueue),
+      cores: multicore ? ran : undefined,
+      switching: switchCost > 0 ? switching : undefined,
+      ioQueue: hasIo ? [...ioDone, ...ioQueue] : undefined,
+      processes: snapshot(localProcesses),
+      stateCounts,
+      eventMessage: events.join(' '),
+    };
+    appendSample(timeline, timelineSample(step));
+    yield step;
+    currentTime = next;
+  }
+
+  yield {
+    time: currentTime,
+    duration: 0,
+    runningProcess: null,
+    readyQueue: [],
+    cores: multicore ? cores.map(() => null) : undefined,
+    ioQueue: hasIo ? [] : undefined,
+    processes: snapshot(localProcesses),
+    stateCounts: countStates(localProcesses),
+    eventMessage: "All processes complete.",
+  };
+
+  const busyTime = cores.reduce((acc, core) => acc + core.busyTime, 0);
+  const totalWaitingTime = localProcesses.reduce((acc, p) => acc + p.waitingTime, 0);
+  const totalTurnaroundTime = localProcesses.reduce((acc, p) => acc + p.turnaroundTime, 0);
+  const capacity = currentTime * coreCount;
+
+  return {
+    name: multicore ? `${policy.name} on ${coreCount} CPUs` : policy.name,
+    ganttChart: multicore
+      ? cores.flatMap(core => core.ganttChart.map(entry => ({ ...entry, core: core.index })))
+      : cores[0].ganttChart,
+    processes: localProcesses,
+    avgWaitingTime: totalWaitingTime / n,
+    avgTurnaroundTime: totalTurnaroundTime / n,
+    avgResponseTime: average(localProcesses.map(p => p.responseTime ?? 0)),
+    avgNormalizedTurnaround: average(localProcesses.map(p => p.normalizedTurnaround ?? 0)),
+    maxWaitingTime: Math.max(...localProcesses.map(p => p.waitingTime)),
+    throughput: n / currentTime,
+    cpuUtilization: busyTime / capacity,
+    idleTime: roundTime(capacity - busyTime - switchOverhead),
+    contextSwitchCount: switchCount,
+    preemptions,
+    totalTime: currentTime,
+    fairness: buildFairnessReport(localProcesses),
+    timeline,
+    tieBreak,
+    shares: policy.shareWeight ? buildShares(localProcesses, shareTallies) : undefined,
+    groups: grouped ? buildGroupReports(localProcesses, groupTallies) : undefined,
+    io: hasIo ? {
+      cpuUtilization: busyTime / capacity,
+      ioUtilization: ioBusyTime / currentTime,
+      overlapTime,
+    } : undefined,
+    contextSwitches: switchCost > 0 ? {
+      count: switchCount,
+      overhead: switchOverhead,
+      efficiency: busyTime + switchOverhead > 0 ? busyTime / (busyTime + switchOverhead) : 1,
+    } : undefined,
+    coreUtilization: multicore ? cores.map(core => core.busyTime / currentTime) : undefined,
+    migrations: multicore ? migrations : undefined,
+  };
+}
+
+// Drains a schedule without rendering it, for the "Compare All" batch path.
+export const runToCompletion = (steps: Generator<SimulationStep, AlgorithmResult>): AlgorithmResult => {
+  let result = steps.next();
+  while (!result.done) {
+    result = steps.next();
+  }
+  return result.value;
+};
@@ -0,0 +1,63 @@
+import type { DistributionStats, FairnessReport, MeanEstimate, Process } from '../types';
+
+// Distribution and fairness statistics of a finished schedule. A schedule's processes are the
+// whole population, not a sample, so the variance divides by n.
+
+const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : 0;
+
+// The p-th percentile (0-100), interpolating linearly between the two nearest ranks.
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const describeDistribution = (values: number[]): DistributionStats => {
+  const average = mean(values);
+  const variance = mean(values.map(v => (v - average) ** 2));
+  return {
+    mean: average,
+    variance,
+    stdDev: Math.sqrt(variance),
+    median: percentile(values, 50),
+    p95: percentile(values, 95),
+  };
+};
+
+// Jain's fairness index, (Σx)² / (n·Σx²): 1 when every value is equal, down to 1/n when one
+// value takes everything.
+export const jainIndex = (values: number[]): number => {
+  const sumOfSquares = values.reduce((acc, v) => acc + v * v, 0);
+  if (sumOfSquares === 0) return 1;
+  const sum = values.reduce((acc, v) => acc + v, 0);
+  return (sum * sum) / (values.length * sumOfSquares);
+};
+
+// Two-sided 95% critical values of Student's t for 1 to 30 degrees of freedom; beyond that the
+// normal value 1.96 is close enough.
+const T_CRITICAL_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+// The mean of independent samples with its 95% confidence interval. Unlike the statistics above,
+// these are samples, so the variance divides by n − 1. One sample has no interval (half-width 0).
+export const estimateMean = (samples: number[]): MeanEstimate => {
+  const n = samples.length;
+  const average = mean(samples);
+  if (n < 2) return { mean: average, halfWidth: 0 };
+  const variance = samples.reduce((acc, v) => acc + (v - average) ** 2, 0) / (n - 1);
+  const t = T_CRITICAL_95[n - 2] ?? 1.96;
+  return { mean: average, halfWidth: t * Math.sqrt(variance / n) };
+};
+
+export const buildFairnessReport = (processes: Process[]): FairnessReport => ({
+  waitingTime: describeDistribution(processes.map(p => p.waitingTime)),
+  turnaroundTime: describeDistribution(processes.map(p => p.turnaroundTime)),
+  jainIndex: jainIndex(processes.map(p => p.normalizedTurnaround ?? 0)),
+});
@@ -0,0 +1,48 @@
+import type { Process, ProcessState, SimulationStep, TimelineSample } from '../types';
+
+// Time series of a run, one sample per stretch of simulation steps over which nothing recorded
+// changed. The engine records them for batch results, and the live dashboard records the same
+// samples from the steps as they arrive.
+
+export const countStates = (processes: Process[]): Record<ProcessState, number> => {
+  const counts: Record<ProcessState, number> = { 'not arrived': 0, 'waiting': 0, 'running': 0, 'blocked': 0, 'completed': 0 };
+  processes.forEach(p => { counts[p.state]++; });
+  return counts;
+};
+
+export const timelineSample = (step: SimulationStep): TimelineSample => {
+  const onCpu = step.cores ?? [step.runningProcess];
+  return {
+    time: step.time,
+    duration: step.duration,
+    readyQueueLength: step.readyQueue.length,
+    stateCounts: step.stateCounts,
+    busyCores: onCpu.filter((p, core) => p !== null && !step.switching?.[core]).length,
+  };
+};
+
+const sameSample = (a: TimelineSample, b: TimelineSample): boolean =>
+  a.readyQueueLength === b.readyQueueLength
+  && a.busyCores === b.busyCores
+  && (Object.keys(a.stateCounts) as ProcessState[]).every(state => a.stateCounts[state] === b.stateCounts[state]);
+
+// Adds the sample of the next step to a timeline. When nothing it records changed, the last
+// sample is stretched instead, so a long run keeps one sample per change, not per step.
+export const appendSample = (timeline: TimelineSample[], sample: TimelineSample) => {
+  const last = timeline[timeline.length - 1];
+  if (last && sameSample(last, sample)) {
+    last.duration = sample.time + sample.duration - last.time;
+    return;
+  }
+  timeline.push(sample);
+};
+
+// CPU utilization from the start of the run to the end of each sample, over `cores` cores.
+export const cumulativeUtilization = (timeline: TimelineSample[], cores: number): { time: number, utilization: number }[] => {
+  let busy = 0;
+  return timeline.filter(sample => sample.duration > 0).map(sample => {
+    busy += sample.busyCores * sample.duration;
+    const end = sample.time + sample.duration;
+    return { time: end, utilization: busy / (end * cores) };
+  });
+};
@@ -1,16 +1,59 @@
-export type ProcessState = 'not arrived' | 'waiting' | 'running' | 'completed';
+export type ProcessState = 'not arrived' | 'waiting' | 'running' | 'blocked' | 'completed';
+
+export type QueueClass = 'system' | 'interactive' | 'batch';
+
+export interface Burst {
+  kind: 'cpu' | 'io';
+  duration: number;
+}
 
 export interface Process {
   id: number;
   name: string;
   arrivalTime: number;
+  // Total CPU time. For a process with a burst sequence, the sum of its CPU bursts.
   burstTime: number;
+  // Alternating CPU and I/O bursts, starting and ending with CPU. Unset = one CPU burst of burstTime.
+  bursts?: Burst[];
+  // While a burst sequence runs: the current burst and what is left of it.
+  burstIndex?: number;
+  burstRemaining?: number;
   priority: number | null;
+  // Lottery tickets, also used as the stride scheduling weight.
+  tickets: number;
+  // CFS nice value, -20 (highest weight) to 19 (lowest).
+  nice: number;
+  // Virtual runtime, while the CFS policy runs.
+  vruntime?: number;
+  // Lengths of the process's CPU bursts before this run, oldest first. Predicted SJF and SRTF
+  // start their estimate from them.
+  burstHistory?: number[];
+  // Predicted length (τ) of the current CPU burst, while predicted SJF or SRTF runs.
+  predictedBurst?: number;
+  // Set on jobs released by a periodic real-time task: the task's period and the job's
+  // absolute deadline.
+  period?: number;
+  deadline?: number;
+  // Priority after aging, when a priority algorithm runs with aging enabled.
+  effectivePriority?: number;
+  // Position of the process under the run's tie-break rule, set by the engine. Lower wins ties.
+  tieRank?: number;
+  // Time the process last joined a ready queue, set by the engine.
+  queuedAt?: number;
+  // Index of the core the process is pinned to on a multiprocessor. Unset = any core.
+  affinity?: number;
+  queueClass: QueueClass;
+  // Owner or group the process belongs to, for fair-share scheduling and per-group results.
+  group: string;
   remainingTime: number;
   color: string;
   completionTime: number;
   turnaroundTime: number;
   waitingTime: number;
+  // Time from arrival until the process first ran. Unset until then.
+  responseTime?: number;
+  // Turnaround time divided by burst time. Unset until the process completes.
+  normalizedTurnaround?: number;
   state: ProcessState;
 }
 
@@ -19,6 +62,33 @@ export interface GanttEntry {
   start: number;
   end: number;
   color: string;
+  // Core the segment ran on; only set on multiprocessor runs.
+  core?: number;
+  // 'switch' marks context-switch overhead before the named process runs. Unset = the process ran.
+  kind?: 'process' | 'switch';
+}
+
+// A stretch of time in which two schedules ran different processes.
+export interface ScheduleDifference {
+  start: number;
+  end: number;
+}
+
+export interface ProcessShare {
+  processName: string;
+  // Fraction of the CPU the process received while it was runnable...
+  actualShare: number;
+  // ...and the fraction its tickets or weight entitled it to over the same time units.
+  entitledShare: number;
+}
+
+export interface GroupReport {
+  group: string;
+  processCount: number;
+  // Fraction of CPU capacity (over all cores) the group received while it had a process ready or running.
+  cpuShare: number;
+  avgWaitingTime: number;
+  avgTurnaroundTime: number;
 }
 
 export interface AlgorithmResult {
@@ -27,5 +97,344 @@ export interface AlgorithmResult {
   processes: Process[];
   avgWaitingTime: number;
   avgTurnaroundTime: number;
+  avgResponseTime: number;
+  avgNormalizedTurnaround: number;
+  maxWaitingTime: number;
+  // Completed processes per time unit.
+  throughput: number;
+  // Fraction of CPU capacity (over all cores) spent running processes.
+  cpuUtilization: number;
+  // Core time in which a core ran nothing, summed over all cores. Switch overhead is not idle.
+  idleTime: number;
+  // Dispatches of a process other than the one a core last ran, whether or not switches cost time.
+  contextSwitchCount: number;
+  // Times a running process lost its core before its CPU burst ended: to a preempting
+  // candidate, or to another process when its quantum expired.
+  preemptions: number;
   totalTime: number;
+  fairness: FairnessReport;
+  timeline: TimelineSample[];
+  // Only reported by proportional-share policies.
+  shares?: ProcessShare[];
+  // Only reported when the processes belong to more than one group.
+  groups?: GroupReport[];
+  // Only reported by real-time policies.
+  realTime?: RealTimeReport;
+  // Only reported by the predicted SJF and SRTF policies.
+  prediction?: PredictionReport;
+  // Only reported when some process performs I/O.
+  io?: IoReport;
+  // Only reported when context switches cost time.
+  contextSwitches?: ContextSwitchReport;
+  // Only reported on multiprocessor runs: busy fraction of each core, and how many times a
+  // process was dispatched on a different core from the one it last ran on.
+  coreUtilization?: number[];
+  migrations?: number;
+  // The tie-break rule the run used.
+  tieBreak?: TieBreakRule;
+  // Only set when a custom policy failed or timed out; the rest of the result is then empty.
+  error?: string;
+}
+
+export interface PredictionReport {
+  // One prediction per CPU burst.
+  predictions: number;
+  // Error = predicted - actual burst length; a positive mean error means bursts were overestimated.
+  meanAbsoluteError: number;
+  meanError: number;
+}
+
+export interface DistributionStats {
+  mean: number;
+  variance: number;
+  stdDev: number;
+  median: number;
+  p95: number;
+}
+
+// How evenly a schedule treated its processes.
+export interface FairnessReport {
+  waitingTime: DistributionStats;
+  turnaroundTime: DistributionStats;
+  // Jain's fairness index over the processes' normalized turnaround, from 1/n (one process
+  // bears all the delay) to 1 (all are slowed down equally).
+  jainIndex: number;
+}
+
+// The schedule-level numbers of an AlgorithmResult the comparison can sort on.
+export type ResultMetric =
+  | 'avgWaitingTime' | 'avgTurnaroundTime' | 'avgResponseTime' | 'avgNormalizedTurnaround'
+  | 'maxWaitingTime' | 'throughput' | 'cpuUtilization' | 'idleTime' | 'contextSwitchCount' | 'preemptions';
+
+export interface IoReport {
+  // Fraction of CPU capacity (over all cores) spent running processes.
+  cpuUtilization: number;
+  // Fraction of time the I/O device was serving a request.
+  ioUtilization: number;
+  // Time units in which the CPU and the I/O device were busy at once.
+  overlapTime: number;
+}
+
+export interface ContextSwitchReport {
+  count: number;
+  // Total time spent switching, summed over all cores.
+  overhead: number;
+  // Useful CPU time / (useful CPU time + switch overhead).
+  efficiency: number;
+}
+
+export interface ReadyQueueGroup {
+  label: string;
+  processes: Process[];
+}
+
+export interface SimulationStep {
+  // The step covers [time, time + duration), between two decision points of the engine.
+  time: number;
+  duration: number;
+  runningProcess: Process | null;
+  readyQueue: Process[];
+  // Present when the policy keeps several ready queues (e.g. one per queue class).
+  readyQueues?: ReadyQueueGroup[];
+  // Present on multiprocessor runs: what each core ran during this step. runningProcess is core 0's.
+  cores?: (Process | null)[];
+  // Present when context switches cost time: whether each core spent this step switching to
+  // its process rather than running it.
+  switching?: boolean[];
+  // Present when some process performs I/O: the device queue, the process in service first.
+  ioQueue?: Process[];
+  processes: Process[];
+  // How many processes are in each state throughout the step.
+  stateCounts: Record<ProcessState, number>;
+  eventMessage: string;
+}
+
+// A stretch of a run's time series over which nothing recorded here changed, for the timeline charts.
+export interface TimelineSample {
+  time: number;
+  duration: number;
+  readyQueueLength: number;
+  stateCounts: Record<ProcessState, number>;
+  // Cores that ran a process, rather than idling or switching, during the sample.
+  busyCores: number;
+}
+
+export type QueueTopology = 'global' | 'per-core';
+
+export interface MachineConfig {
+  cores: number;
+  // One ready queue shared by every core, or one ready queue per core.
+  topology: QueueTopology;
+  // Per-core queues only: every balanceInterval time units work moves from the longest queue to
+  // the shortest. 0 disables periodic balancing; an idle core still steals work either way.
+  balanceInterval: number;
+  // Time a core spends switching whenever it dispatches a process other than the one it last ran.
+  contextSwitchCost: number;
+  // Not a property of the hardware, but like the settings above it applies to every algorithm:
+  // how ties between otherwise equal processes are broken.
+  tieBreak: TieBreakRule;
+}
+
+// 'arrival' = earlier arrival, then lower id; 'table-order' = the order of the process table.
+export type TieBreakRule = 'arrival' | 'id' | 'table-order' | 'name';
+
+// Whether a Round Robin process whose quantum expires rejoins the queue ahead of ('preempted-first')
+// or behind ('arrivals-first') the processes that become ready at the same moment.
+export type RoundRobinQueueOrder = 'arrivals-first' | 'preempted-first';
+
+// fixed: one quantum for everyone. dynamic-mean / dynamic-median: at every dispatch, the mean or
+// median remaining CPU burst of the processes in the system. per-priority: one quantum per priority
+// level. virtual: Virtual Round Robin, where processes back from I/O wait in an auxiliary queue
+// that is served first, and run for what was left of their quantum.
+export type RoundRobinQuantumMode = 'fixed' | 'dynamic-mean' | 'dynamic-median' | 'per-priority' | 'virtual';
+
+export interface RoundRobinConfig {
+  // Used by the fixed and virtual modes.
+  timeQuantum: number;
+  queueOrder: RoundRobinQueueOrder;
+  quantumMode: RoundRobinQuantumMode;
+  // Per-priority mode: quanta for priority 0, 1, 2, ... Larger priority numbers, and processes
+  // without a priority, use the last entry.
+  priorityQuanta: number[];
+}
+
+export interface MlfqConfig {
+  // One entry per queue, highest priority first. The number of queues is quanta.length.
+  quanta: number[];
+  // Every boostInterval time units all processes move back to the top queue. 0 disables boosting.
+  boostInterval: number;
+}
+
+export type QueueAlgorithm = 'FCFS' | 'SJF' | 'RR';
+
+export interface QueueClassConfig {
+  algorithm: QueueAlgorithm;
+  // Only used when algorithm is 'RR'.
+  timeQuantum: number;
+  // Length of this queue's turn when arbitration is 'time-slice'.
+  timeSlice: number;
+}
+
+export interface MultilevelQueueConfig {
+  arbitration: 'fixed-priority' | 'time-slice';
+  queues: Record<QueueClass, QueueClassConfig>;
+}
+
+export interface AgingConfig {
+  enabled: boolean;
+  // A waiting process gains priority after every `interval` time units in the ready queue...
+  interval: number;
+  // ...by lowering its effective priority number by `step` (never below 0).
+  step: number;
+}
+
+export interface ProportionalShareConfig {
+  // Seed for the lottery draws, so a run can be reproduced exactly.
+  seed: number;
+  // Time units a lottery or stride winner runs before the next decision.
+  quantum: number;
+}
+
+export interface PredictionConfig {
+  // Weight of the latest burst in the exponential average, from 0 to 1.
+  alpha: number;
+  // Estimate for a process with no burst history.
+  initialTau: number;
+}
+
+export interface FairShareConfig {
+  // Time units the chosen process runs before the next decision.
+  quantum: number;
+  // CPU weight of each group, by name. Groups not listed weigh 1.
+  groupWeights: Record<string, number>;
+}
+
+export interface CfsConfig {
+  // Period in which every runnable process should get to run once.
+  targetLatency: number;
+  // Lower bound on a slice, however many processes share the target latency.
+  minGranularity: number;
+}
+
+export interface RealTimeTask {
+  id: number;
+  name: string;
+  period: number;
+  executionTime: number;
+  // Relative deadline; equal to the period for implicit-deadline tasks.
+  deadline: number;
+  color: string;
+}
+
+export type SchedulabilityVerdict = 'schedulable' | 'not schedulable' | 'inconclusive';
+
+export interface RealTimeReport {
+  horizon: number;
+  utilization: number;
+  // Utilization bound used by the test: 1 for EDF, n(2^(1/n) - 1) for Rate Monotonic.
+  utilizationBound: number;
+  verdict: SchedulabilityVerdict;
+  deadlineMisses: number;
+  // Largest completion time minus deadline over all jobs (negative when every job is early).
+  maxLateness: number;
+}
+
+export interface TimeMarker {
+  time: number;
+  kind: 'release' | 'deadline-miss';
+  label: string;
+}
+
+// A scheduling policy written by the user in the browser, saved in localStorage.
+export interface CustomPolicy {
+  id: number;
+  name: string;
+  // JavaScript or TypeScript defining pickNext, and optionally shouldPreempt and quantum.
+  code: string;
+}
+
+// The settings of every built-in algorithm, as Compare All and experiments run them.
+export interface AlgorithmSettings {
+  rrConfig: RoundRobinConfig;
+  mlfqConfig: MlfqConfig;
+  mlqConfig: MultilevelQueueConfig;
+  agingConfig: AgingConfig;
+  shareConfig: ProportionalShareConfig;
+  cfsConfig: CfsConfig;
+  predictionConfig: PredictionConfig;
+  fairShareConfig: FairShareConfig;
+  machineConfig: MachineConfig;
+}
+
+// A Monte Carlo experiment: `trials` random workloads from a seeded generator, each run by every
+// built-in algorithm. Process counts and times are drawn uniformly from the inclusive ranges.
+export interface ExperimentConfig {
+  trials: number;
+  seed: number;
+  minProcesses: number;
+  maxProcesses: number;
+  maxArrivalTime: number;
+  minBurst: number;
+  maxBurst: number;
+  // The metric that decides each trial's winners and losers.
+  metric: ResultMetric;
+}
+
+// One algorithm's metrics on one trial's workload.
+export interface ExperimentTrial {
+  trial: number;
+  algorithm: string;
+  processCount: number;
+  metrics: Record<ResultMetric, number>;
+}
+
+// Mean over the trials, with the half-width of its 95% confidence interval.
+export interface MeanEstimate {
+  mean: number;
+  halfWidth: number;
+}
+
+export interface ExperimentSummary {
+  algorithm: string;
+  metrics: Record<ResultMetric, MeanEstimate>;
+  // Trials in which the algorithm had the best, or the worst, value of the experiment's metric.
+  // Ties count for every algorithm involved; a trial where all algorithms tie counts for none.
+  wins: number;
+  losses: number;
+}
+
+export interface ExperimentReport {
+  config: ExperimentConfig;
+  trials: ExperimentTrial[];
+  summaries: ExperimentSummary[];
+}
+
+// The time quanta a Round Robin sweep tries: from `from` to `to` in steps of `step`.
+export interface QuantumSweepConfig {
+  from: number;
+  to: number;
+  step: number;
+}
+
+export interface QuantumSweepPoint {
+  quantum: number;
+  result: AlgorithmResult;
+}
+
+// Round Robin at each quantum of the sweep, with FCFS and SRTF on the same processes for reference.
+export interface QuantumSweepReport {
+  points: QuantumSweepPoint[];
+  fcfs: AlgorithmResult;
+  srtf: AlgorithmResult;
+}
+
+// How much each metric counts toward the weighted recommendation; 0 ignores it.
+export type MetricWeights = Record<ResultMetric, number>;
+
+// A result's metrics scaled against the other results: 1 for the best of them, 0 for the worst.
+export interface RankedResult {
+  result: AlgorithmResult;
+  scores: Record<ResultMetric, number>;
+  // Weighted mean of the scores.
+  total: number;
 }